@@ -0,0 +1,339 @@
+// Atlassian Document Format (ADF), the rich text format used by the Jira Cloud v3 API
+// https://developer.atlassian.com/cloud/jira/platform/apis/document/structure/
+import { marked } from 'marked';
+
+export type AdfMark = {
+  type: string;
+  attrs?: { [key: string]: any };
+};
+
+export type AdfNode = {
+  type: string;
+  attrs?: { [key: string]: any };
+  content?: AdfNode[];
+  text?: string;
+  marks?: AdfMark[];
+};
+
+export type AdfDoc = {
+  version: 1;
+  type: 'doc';
+  content: AdfNode[];
+};
+
+export type AdfOptions = {
+  /** Map of GitHub logins to Jira accountIds, used to convert `@login` into mentions */
+  mentions?: { [login: string]: string };
+};
+
+type Token = marked.Token;
+
+// GitHub `@login` mentions, but not email addresses
+const mentionRegex = /(^|[^\w@/.])@([a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38})\b/gi;
+
+/**
+ * Decode the HTML entities that the `marked` lexer adds to text
+ */
+export const unescape = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const textNode = (text: string, marks: AdfMark[]): AdfNode => ({
+  type: 'text',
+  text,
+  ...(marks.length ? { marks } : {}),
+});
+
+const paragraph = (content: AdfNode[]): AdfNode => ({ type: 'paragraph', content });
+
+// the only block nodes that a blockquote can hold
+const quotableTypes = [
+  'paragraph',
+  'bulletList',
+  'orderedList',
+  'codeBlock',
+  'mediaSingle',
+  'mediaGroup',
+];
+
+const inlineTypes = ['text', 'mention', 'hardBreak'];
+
+// code can't be combined with the strong mark, so it is left as it is
+const bold = (node: AdfNode): AdfNode =>
+  node.type === 'text' && !node.marks?.some((m) => m.type === 'code' || m.type === 'strong')
+    ? { ...node, marks: [...(node.marks || []), { type: 'strong' }] }
+    : node;
+
+/**
+ * Flatten the nodes that a blockquote can't hold: headings become bold paragraphs,
+ * and the contents of nested quotes, tables and task lists are lifted out
+ */
+const quotable = (nodes: AdfNode[]): AdfNode[] =>
+  nodes.flatMap((node) => {
+    const content = node.content || [];
+    if (quotableTypes.includes(node.type)) {
+      return [node];
+    }
+    if (node.type === 'heading') {
+      return content.length ? [paragraph(content.map(bold))] : [];
+    }
+    if (content.some((n) => inlineTypes.includes(n.type))) {
+      return [paragraph(content)];
+    }
+    return quotable(content);
+  });
+
+/**
+ * Converts the tokens produced by the `marked` lexer into ADF nodes
+ */
+class AdfConverter {
+  private localId = 0;
+
+  constructor(private options: AdfOptions) {}
+
+  /**
+   * Split plain text into text and mention nodes
+   */
+  private text(text: string, marks: AdfMark[]): AdfNode[] {
+    const { mentions = {} } = this.options;
+    const nodes: AdfNode[] = [];
+    let last = 0;
+    for (const match of text.matchAll(mentionRegex)) {
+      const [, before, login] = match;
+      const id = mentions[login] || mentions[login.toLowerCase()];
+      if (!id) {
+        continue;
+      }
+      const start = match.index! + before.length;
+      if (start > last) {
+        nodes.push(textNode(text.slice(last, start), marks));
+      }
+      nodes.push({ type: 'mention', attrs: { id, text: `@${login}` } });
+      last = start + login.length + 1;
+    }
+    if (last < text.length) {
+      nodes.push(textNode(text.slice(last), marks));
+    }
+    return nodes;
+  }
+
+  /**
+   * Convert inline tokens into ADF inline nodes, applying the given marks
+   */
+  inline(tokens: Token[] = [], marks: AdfMark[] = []): AdfNode[] {
+    return tokens.flatMap((token): AdfNode[] => {
+      switch (token.type) {
+        case 'text':
+          return 'tokens' in token && token.tokens?.length
+            ? this.inline(token.tokens, marks)
+            : this.text(unescape(token.text), marks);
+        case 'escape':
+          return [textNode(unescape(token.text), marks)];
+        case 'strong':
+          return this.inline(token.tokens, [...marks, { type: 'strong' }]);
+        case 'em':
+          return this.inline(token.tokens, [...marks, { type: 'em' }]);
+        case 'del':
+          return this.inline(token.tokens, [...marks, { type: 'strike' }]);
+        case 'codespan':
+          // code can only be combined with link marks
+          return [
+            textNode(unescape(token.text), [
+              ...marks.filter((m) => m.type === 'link'),
+              { type: 'code' },
+            ]),
+          ];
+        case 'link':
+          return this.inline(token.tokens, [
+            ...marks,
+            {
+              type: 'link',
+              attrs: { href: token.href, ...(token.title ? { title: token.title } : {}) },
+            },
+          ]);
+        case 'image':
+          // ADF has no inline images, so link to it instead
+          return [
+            textNode(unescape(token.text) || token.href, [
+              ...marks,
+              { type: 'link', attrs: { href: token.href } },
+            ]),
+          ];
+        case 'br':
+          return [{ type: 'hardBreak' }];
+        case 'html':
+          // drop comments and other inline markup
+          return /^<br\s*\/?>$/i.test(token.text) ? [{ type: 'hardBreak' }] : [];
+        default:
+          return 'text' in token && token.text ? this.text(unescape(token.text), marks) : [];
+      }
+    });
+  }
+
+  /**
+   * Convert a task list. Task items can only hold inline content,
+   * so any lists nested in an item become nested task lists.
+   */
+  private taskList(list: marked.Tokens.List): AdfNode {
+    return {
+      type: 'taskList',
+      attrs: { localId: `${++this.localId}` },
+      content: list.items.flatMap((item) => [
+        {
+          type: 'taskItem',
+          attrs: { localId: `${++this.localId}`, state: item.checked ? 'DONE' : 'TODO' },
+          content: item.tokens
+            .filter((t) => t.type !== 'list')
+            .flatMap((t) => this.inline('tokens' in t && t.tokens ? t.tokens : [t])),
+        },
+        ...item.tokens
+          .filter((t): t is marked.Tokens.List => t.type === 'list')
+          .map((nested) => this.taskList(nested)),
+      ]),
+    };
+  }
+
+  /**
+   * Convert block level tokens into ADF block nodes
+   */
+  blocks(tokens: Token[] = []): AdfNode[] {
+    return tokens.flatMap((token): AdfNode[] => {
+      switch (token.type) {
+        case 'heading':
+          return [
+            { type: 'heading', attrs: { level: token.depth }, content: this.inline(token.tokens) },
+          ];
+        case 'paragraph': {
+          const [image] = token.tokens;
+          if (token.tokens.length === 1 && image.type === 'image') {
+            return [
+              {
+                type: 'mediaSingle',
+                attrs: { layout: 'center' },
+                content: [
+                  {
+                    type: 'media',
+                    attrs: {
+                      type: 'external',
+                      url: image.href,
+                      ...(image.text ? { alt: unescape(image.text) } : {}),
+                    },
+                  },
+                ],
+              },
+            ];
+          }
+          const content = this.inline(token.tokens);
+          return content.length ? [paragraph(content)] : [];
+        }
+        case 'text':
+          // the items of tight lists hold text, rather than paragraphs
+          return [
+            paragraph(this.inline('tokens' in token && token.tokens ? token.tokens : [token])),
+          ];
+        case 'code':
+          return [
+            {
+              type: 'codeBlock',
+              ...(token.lang ? { attrs: { language: token.lang } } : {}),
+              content: token.text ? [{ type: 'text', text: token.text }] : [],
+            },
+          ];
+        case 'blockquote':
+          return [{ type: 'blockquote', content: quotable(this.blocks(token.tokens)) }];
+        case 'hr':
+          return [{ type: 'rule' }];
+        case 'list':
+          if (token.items.length && token.items.every((item) => item.task)) {
+            return [this.taskList(token)];
+          }
+          return [
+            {
+              type: token.ordered ? 'orderedList' : 'bulletList',
+              ...(token.ordered && token.start !== '' && token.start !== 1
+                ? { attrs: { order: token.start } }
+                : {}),
+              content: token.items.map((item) => ({
+                type: 'listItem',
+                content: this.blocks(item.tokens),
+              })),
+            },
+          ];
+        case 'table': {
+          const cell = (type: string, { tokens }: marked.Tokens.TableCell): AdfNode => ({
+            type,
+            content: [paragraph(this.inline(tokens))],
+          });
+          return [
+            {
+              type: 'table',
+              content: [
+                { type: 'tableRow', content: token.header.map((c) => cell('tableHeader', c)) },
+                ...token.rows.map((row) => ({
+                  type: 'tableRow',
+                  content: row.map((c) => cell('tableCell', c)),
+                })),
+              ],
+            },
+          ];
+        }
+        case 'html': {
+          // drop comments (e.g. from PR templates), and keep any other markup as plain text
+          const html = token.text.replace(/<!--[\s\S]*?-->/g, '').trim();
+          return html ? [paragraph([textNode(html, [])])] : [];
+        }
+        default:
+          return [];
+      }
+    });
+  }
+}
+
+/**
+ * Takes Markdown (GitHub flavored) and converts it to an ADF document
+ *
+ * @param {string} input
+ * @param {AdfOptions} options
+ * @returns {AdfDoc}
+ */
+export function markdownToAdf(input: string, options: AdfOptions = {}): AdfDoc {
+  const tokens = marked.lexer(input || '', { gfm: true });
+  return { version: 1, type: 'doc', content: new AdfConverter(options).blocks(tokens) };
+}
+
+/**
+ * Finds the GitHub `@login` mentions in Markdown
+ *
+ * @param {string} input
+ * @returns {string[]} the unique logins
+ */
+export function findMentions(input: string): string[] {
+  return Array.from(new Set(Array.from((input || '').matchAll(mentionRegex), (m) => m[2])));
+}
+
+/**
+ * Extracts the plain text from an ADF document (or node)
+ *
+ * @param {AdfNode | AdfDoc} node
+ * @returns {string}
+ */
+export function adfToText(node?: AdfNode | AdfDoc | null): string {
+  if (!node) {
+    return '';
+  }
+  if (node.type === 'text') {
+    return (node as AdfNode).text || '';
+  }
+  if (node.type === 'mention') {
+    return (node as AdfNode).attrs?.text || '';
+  }
+  if (node.type === 'hardBreak') {
+    return '\n';
+  }
+  const text = (node.content || []).map((c) => adfToText(c)).join('');
+  return ['paragraph', 'heading', 'codeBlock', 'taskItem'].includes(node.type) ? `${text}\n` : text;
+}
@@ -0,0 +1,147 @@
+// In-memory caches shared between events, so that bursts of webhooks don't repeat the same lookups
+
+/**
+ * Read a cache time to live from an environment variable, in seconds
+ * @param name the environment variable name
+ * @param defaultSeconds the TTL when not set
+ * @returns the TTL in ms
+ */
+export const ttlFromEnv = (name: string, defaultSeconds: number) => {
+  const seconds = process.env[name] ? Number(process.env[name]) : NaN;
+  return (Number.isNaN(seconds) ? defaultSeconds : seconds) * 1000;
+};
+
+const caches: TtlCache<unknown>[] = [];
+
+/**
+ * A map whose entries expire after a time to live.
+ * Loads are shared while in flight, and failed loads are not cached.
+ */
+export class TtlCache<V> {
+  private entries = new Map<string, { value: Promise<V>; expires: number }>();
+
+  /**
+   * @param ttl the time to live of each entry, in ms. Nothing is cached when 0.
+   * @param maxSize the number of entries to keep, dropping the oldest first
+   */
+  constructor(readonly ttl: number, readonly maxSize = 1000) {
+    caches.push(this);
+  }
+
+  /**
+   * Get the cached value for a key, loading it if missing or expired
+   * @param key the cache key
+   * @param load loads the value
+   * @returns a Promise for the value
+   */
+  get(key: string, load: () => Promise<V>): Promise<V> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expires > Date.now()) {
+      return entry.value;
+    }
+    const value = load();
+    this.store(key, value);
+    value.catch(() => {
+      if (this.entries.get(key)?.value === value) {
+        this.entries.delete(key);
+      }
+    });
+    return value;
+  }
+
+  /**
+   * Set the cached value for a key, replacing any existing entry
+   */
+  set(key: string, value: V) {
+    this.store(key, Promise.resolve(value));
+  }
+
+  /**
+   * List the keys that haven't expired, oldest first
+   */
+  keys() {
+    const now = Date.now();
+    return Array.from(this.entries.entries())
+      .filter(([, { expires }]) => expires > now)
+      .map(([key]) => key);
+  }
+
+  /**
+   * Drop the cached value for a key, e.g. after changing it
+   */
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  private store(key: string, value: Promise<V>) {
+    if (this.ttl > 0) {
+      // re-insert, so that the oldest entries come first
+      this.entries.delete(key);
+      this.entries.set(key, { value, expires: Date.now() + this.ttl });
+      if (this.entries.size > this.maxSize) {
+        this.entries.delete(this.entries.keys().next().value);
+      }
+    }
+  }
+}
+
+/**
+ * Clear all the caches, e.g. between tests
+ */
+export const clearCaches = () => caches.forEach((c) => c.clear());
+
+// pending coalesced calls, by key
+const pending = new Map<string, { run: () => Promise<void>; done: Promise<void> }>();
+
+/**
+ * Coalesce a burst of calls with the same key into one, made after a delay.
+ * Only the last call's `run` is made, and every call resolves when it completes.
+ * @param key identifies the calls to coalesce, e.g. the PR
+ * @param delay how long to wait for more calls, in ms
+ * @param run makes the call, with the latest state
+ * @returns a Promise that resolves when the coalesced call completes
+ */
+export const coalesce = (key: string, delay: number, run: () => Promise<void>) => {
+  const existing = pending.get(key);
+  if (existing) {
+    existing.run = run;
+    return existing.done;
+  }
+  const entry = {
+    run,
+    done: new Promise<void>((resolve, reject) => {
+      setTimeout(() => {
+        pending.delete(key);
+        entry.run().then(resolve, reject);
+      }, delay);
+    }),
+  };
+  pending.set(key, entry);
+  return entry.done;
+};
+
+// the last queued call, by key
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run calls with the same key one at a time, in order, e.g. the read-modify-write of a PR comment.
+ * Calls with other keys run concurrently.
+ * @param key identifies the calls to serialise, e.g. the PR
+ * @param run makes the call
+ * @returns a Promise for the result of `run`
+ */
+export const serialize = <T>(key: string, run: () => Promise<T>): Promise<T> => {
+  const result = (queues.get(key) || Promise.resolve()).then(run);
+  const queued = result.catch(() => undefined);
+  queues.set(key, queued);
+  queued.then(() => {
+    if (queues.get(key) === queued) {
+      queues.delete(key);
+    }
+  });
+  return result;
+};
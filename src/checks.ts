@@ -0,0 +1,165 @@
+import { Context } from 'probot';
+import _ from 'lodash';
+import type { Jira } from './probotHelpers';
+import type { JiraIssue } from './jiraApi';
+import { describeJiraError } from './jiraClient';
+import { matchesPattern } from './workflow';
+
+/**
+ * Find the reasons that a linked Jira issue is not acceptable for the PR
+ * @param jira the Jira API helper
+ * @param issueDetail the issue, as returned by `getIssueDetail`
+ * @returns the list of problems, empty if the issue is acceptable
+ */
+const getIssueProblems = (jira: Jira, issueDetail: JiraIssue) => {
+  const { disallowedStatuses = [], issueTypes = [], fixVersions = [] } = jira.checks || {};
+  const status = issueDetail.fields.status?.name || '';
+  const issueType = issueDetail.fields.issuetype?.name || '';
+  const versions: string[] = (issueDetail.fields.fixVersions || []).map((v) => v.name);
+  const problems: string[] = [];
+  if (disallowedStatuses.some((s: string) => matchesPattern(status, s))) {
+    problems.push(`status \`${status}\` is not allowed`);
+  }
+  if (issueTypes.length && !issueTypes.some((t: string) => matchesPattern(issueType, t))) {
+    problems.push(`issue type \`${issueType}\` is not allowed`);
+  }
+  if (
+    fixVersions.length &&
+    !versions.some((v) => fixVersions.some((f: string) => matchesPattern(v, f)))
+  ) {
+    problems.push(
+      versions.length
+        ? `fix version ${versions.map((v) => `\`${v}\``).join(', ')} is not allowed`
+        : 'no fix version is set',
+    );
+  }
+  return problems;
+};
+
+/**
+ * Publish a completed check run on the PR head commit
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param failed whether the check failed
+ * @param output the check title and summary
+ */
+const createCheck = async (
+  context: Context,
+  jira: Jira,
+  failed: boolean,
+  output: { title: string; summary: string },
+) => {
+  try {
+    // comment events don't include the PR, so read its head commit
+    const head =
+      (context.payload as any).pull_request?.head ||
+      (await context.octokit.pulls.get(context.pullRequest())).data.head;
+    await context.octokit.checks.create(
+      context.repo({
+        name: jira.checks.name || 'Jira',
+        head_sha: head.sha,
+        status: 'completed' as const,
+        conclusion: failed ? ('failure' as const) : ('success' as const),
+        completed_at: new Date().toISOString(),
+        output,
+      }),
+    );
+  } catch (err) {
+    context.log.error(`Failed to create Jira check run: ${err.message}`);
+  }
+};
+
+/**
+ * Publish a check run on the PR head commit, reporting whether it is linked to valid Jira issues.
+ * Does nothing unless `checks.enabled` is set in the config.
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param issues the Jira issue keys linked to the PR
+ * @param issueDetails map of the issue keys to their details, as returned by `getIssueDetail`
+ */
+export const reportCheck = async (
+  context: Context,
+  jira: Jira,
+  issues: string[],
+  issueDetails: { [issue: string]: JiraIssue | null },
+) => {
+  if (!jira.checks?.enabled) {
+    return;
+  }
+  const lines: string[] = [];
+  let title = '';
+  if (!issues.length) {
+    title = 'No Jira issue is associated with this PR';
+  }
+  for (const issue of issues) {
+    const detail = issueDetails[issue];
+    if (!detail) {
+      title = title || `${issue} could not be found in Jira`;
+      lines.push(`- ${issue}: could not be found in Jira`);
+      continue;
+    }
+    const problems = getIssueProblems(jira, detail);
+    if (problems.length) {
+      title = title || `${issue} is not valid for this PR`;
+    }
+    lines.push(
+      `- ${jira.issueLinkMd(issue)}: \`${detail.fields?.status?.name || 'unknown'}\`${
+        problems.length ? ` (${problems.join(', ')})` : ''
+      }`,
+    );
+  }
+  await createCheck(context, jira, !!title, {
+    title: title || `Linked to ${issues.join(', ')}`,
+    summary: lines.join('\n') || title,
+  });
+};
+
+/**
+ * Publish a failing check run on the PR head commit when its Jira issues could not be read,
+ * so that a PR isn't merged unchecked while Jira is unavailable.
+ * Does nothing unless `checks.enabled` is set in the config.
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param issues the Jira issue keys linked to the PR
+ * @param err the error from reading the issues
+ */
+export const reportCheckError = async (
+  context: Context,
+  jira: Jira,
+  issues: string[],
+  err: Error,
+) => {
+  if (!jira.checks?.enabled) {
+    return;
+  }
+  await createCheck(context, jira, true, {
+    title: `Could not check ${issues.join(', ')} as ${describeJiraError(err)}`,
+    summary: 'Push a commit or edit the PR to check the Jira issues again.',
+  });
+};
+
+/**
+ * Publish the check run again, after the linked issues or their Jira issues changed,
+ * e.g. after a `/jira` command or a Jira webhook.
+ * Does nothing unless `checks.enabled` is set in the config.
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param issues the Jira issue keys linked to the PR
+ */
+export const refreshCheck = async (context: Context, jira: Jira, issues: string[]) => {
+  if (!jira.checks?.enabled) {
+    return;
+  }
+  let issueDetails: { [issue: string]: JiraIssue | null };
+  try {
+    issueDetails = _.zipObject(
+      issues,
+      await Promise.all(issues.map((issue) => jira.getIssueDetail(context, issue))),
+    );
+  } catch (err) {
+    context.log.error(`Failed to get Jira issues: ${err.message}`);
+    await reportCheckError(context, jira, issues, err);
+    return;
+  }
+  await reportCheck(context, jira, issues, issueDetails);
+};
@@ -0,0 +1,229 @@
+import { Context } from 'probot';
+import _ from 'lodash';
+import type { Jira } from './probotHelpers';
+import { writeComment, setStickyStatus } from './probotHelpers';
+import { describeJiraError } from './jiraClient';
+import { reportUnmappedUsers } from './users';
+
+/**
+ * The `/jira` commands that can be used in PR comments
+ */
+const usage = [
+  '`/jira link PROJ-12 [PROJ-13...]` link this PR to Jira issues',
+  '`/jira unlink [PROJ-12...]` unlink this PR from Jira issues (all, by default)',
+  '`/jira transition "In QA"` transition the linked issues',
+  '`/jira assign me|@user` assign the linked issues',
+  '`/jira status` show the status of the linked issues',
+  '`/jira log 2h [comment]` log work on the linked issues',
+  '`/jira users` show the Jira users of the PR author and assignees, and any unmapped users',
+];
+
+/**
+ * Matches a `/jira` command on its own line of a comment
+ */
+const commandRegex = /^\s*\/jira(?:[ \t]+(.*))?$/m;
+
+/**
+ * Split command arguments on whitespace, keeping quoted strings together
+ */
+const splitArgs = (input: string) =>
+  Array.from(input.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g), ([, dq, sq, word]) => dq ?? sq ?? word);
+
+/**
+ * Parse the `/jira` command from a comment body
+ * @param body the comment body
+ * @returns the command name and its arguments, or null if there is no command
+ */
+export const parseCommand = (body?: string | null) => {
+  const match = (body || '').match(commandRegex);
+  if (!match) {
+    return null;
+  }
+  const [name = '', ...args] = splitArgs(match[1] || '');
+  return { name: name.toLowerCase(), args };
+};
+
+/**
+ * Check that the user has write permission on the repo
+ * @param context a Probot event Context
+ * @param username the GitHub login
+ */
+const canWrite = async (context: Context, username: string) => {
+  try {
+    const {
+      data: { permission },
+    } = await context.octokit.repos.getCollaboratorPermissionLevel(context.repo({ username }));
+    return ['admin', 'write'].includes(permission);
+  } catch (err) {
+    context.log.error(`Failed to get permission for ${username}: ${err.message}`);
+    return false;
+  }
+};
+
+/**
+ * Run a `/jira` command from a PR comment
+ * @param context a Probot `issue_comment` event Context
+ * @param jira the Jira API helper
+ * @param command the parsed command, as returned by `parseCommand`
+ * @returns a Promise for the Jira issues linked to the PR after the command, if it changed them or
+ * their Jira issues, so that the summary can be refreshed. Otherwise null.
+ */
+export const runCommand = async (
+  context: Context,
+  jira: Jira,
+  { name, args }: { name: string; args: string[] },
+): Promise<string[] | null> => {
+  const { issue: pr, sender } = context.payload as any;
+  if (!(await canWrite(context, sender.login))) {
+    await writeComment(
+      context,
+      `@${sender.login} you need write permission on this repo to use \`/jira\` commands.`,
+    );
+    return null;
+  }
+  const { issues, commandIssues } = await jira.getLinkedIssues(context);
+  const linksMd = (keys: string[]) => keys.map((i) => jira.issueLinkMd(i)).join(', ');
+  if (['unlink', 'transition', 'assign', 'status', 'log'].includes(name) && !issues.length) {
+    await writeComment(
+      context,
+      'No Jira issue is linked to this PR. Use `/jira link PROJ-12` to link one.',
+    );
+    return null;
+  }
+
+  switch (name) {
+    case 'link': {
+      // only issue keys of the configured projects are used in Jira requests
+      const keys = await jira.filterValidIssues(
+        context,
+        _.uniq(args.map((a) => a.toUpperCase()).filter((a) => jira.isIssueKey(a))),
+      );
+      const found: string[] = [];
+      const failed: string[] = [];
+      for (const issue of keys) {
+        try {
+          if (!(await jira.getIssueDetail(context, issue))) {
+            continue;
+          }
+          await jira.addRemoteLink(
+            context,
+            issue,
+            pr.html_url,
+            `GitHub PR #${pr.number} - ${jira.parseTitle(pr.title).description || pr.title}`,
+          );
+          found.push(issue);
+        } catch (err) {
+          context.log.error(`Failed to link Jira issue ${issue}: ${err.message}`);
+          failed.push(`\`${issue}\` (${describeJiraError(err)})`);
+        }
+      }
+      if (failed.length) {
+        await writeComment(
+          context,
+          `Warning: failed to link ${failed.join(', ')}, please try again later.`,
+        );
+      }
+      if (!found.length) {
+        if (failed.length) {
+          return null;
+        }
+        await writeComment(context, `No valid Jira issue found in \`${args.join(' ')}\`.`);
+        return null;
+      }
+      await jira.setCachedIssues(context, _.union(issues, found), _.union(commandIssues, found));
+      await writeComment(context, `Successfully linked this PR to Jira: ${linksMd(found)}`);
+      return _.union(issues, found);
+    }
+    case 'unlink': {
+      const toUnlink = args.length
+        ? _.intersection(
+            issues,
+            args.map((a) => a.toUpperCase()),
+          )
+        : issues;
+      for (const issue of toUnlink) {
+        await jira.removeRemoteLink(context, issue, pr.html_url);
+      }
+      await jira.setCachedIssues(
+        context,
+        _.difference(issues, toUnlink),
+        _.difference(commandIssues, toUnlink),
+      );
+      await writeComment(
+        context,
+        toUnlink.length
+          ? `Unlinked this PR from Jira: ${linksMd(toUnlink)}`
+          : `This PR is not linked to \`${args.join(' ')}\`.`,
+      );
+      return _.difference(issues, toUnlink);
+    }
+    case 'transition':
+      if (!args.length) {
+        break;
+      }
+      for (const issue of issues) {
+        await jira.transitionIssue(context, issue, args.join(' '));
+      }
+      return issues;
+    case 'assign': {
+      const target = (args[0] || 'me').replace(/^@/, '');
+      const login = target.toLowerCase() === 'me' ? sender.login : target;
+      for (const issue of issues) {
+        await jira.setAssignee(context, issue, login);
+      }
+      return issues;
+    }
+    case 'status': {
+      const lines = await Promise.all(
+        issues.map(async (issue) => {
+          try {
+            return jira.describeIssue(issue, await jira.getIssueDetail(context, issue));
+          } catch (err) {
+            context.log.error(`Failed to get Jira issue ${issue}: ${err.message}`);
+            return `${jira.issueLinkMd(issue)}: ${describeJiraError(err)}`;
+          }
+        }),
+      );
+      setStickyStatus(context, lines);
+      await writeComment(context, lines.join('\n'));
+      return null;
+    }
+    case 'users': {
+      const logins: string[] = _.uniq([
+        pr.user.login,
+        ...(pr.assignees || []).map((a: any) => a.login),
+      ]);
+      const lines = await Promise.all(
+        logins.map(async (login) => {
+          const key = await jira.toJiraUserKey(context, login);
+          return `- \`${login}\`: ${key ? `\`${key}\`` : 'no Jira user found'}`;
+        }),
+      );
+      const report =
+        reportUnmappedUsers(context, jira) ||
+        'All users have been matched between GitHub and Jira.';
+      await writeComment(context, [...lines, '', report].join('\n'));
+      return null;
+    }
+    case 'log': {
+      const [timeSpent, ...comment] = args;
+      if (!timeSpent) {
+        break;
+      }
+      const text = comment.join(' ');
+      const logged: string[] = [];
+      for (const issue of issues) {
+        if (await jira.addWorklog(context, issue, { timeSpent, comment: text })) {
+          logged.push(issue);
+        }
+      }
+      if (logged.length) {
+        await writeComment(context, `Logged \`${timeSpent}\` on ${linksMd(logged)}`);
+      }
+      return null;
+    }
+  }
+  // unknown command, or missing arguments
+  await writeComment(context, `Usage:\n${usage.map((u) => `* ${u}`).join('\n')}`);
+  return null;
+};
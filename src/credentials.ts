@@ -0,0 +1,275 @@
+import fetch from 'node-fetch';
+import fs from 'fs-extra';
+
+/**
+ * Username and password (or email and API token, for Jira Cloud), sent using basic auth
+ */
+export type BasicCredentials = {
+  username: string;
+  password: string;
+};
+
+/**
+ * Personal access token (Jira Data Center), sent as a Bearer token
+ */
+export type BearerCredentials = {
+  token: string;
+};
+
+/**
+ * OAuth 2.0 (3LO) app credentials, for Jira Cloud.
+ * The access token is refreshed as needed, and requests are routed through `api.atlassian.com`.
+ */
+export type OAuth2Credentials = {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  cloudId: string;
+  accessToken?: string;
+  expiresAt?: number;
+};
+
+export type JiraCredentials = BasicCredentials | BearerCredentials | OAuth2Credentials;
+
+/**
+ * Credentials, along with where they came from, e.g. `hosts.jira.mycompany.com` or `JIRA`
+ */
+export type ResolvedCredentials = { credentials: JiraCredentials; source: string };
+
+/**
+ * Format of the file named by `JIRA_CREDENTIALS_FILE`
+ */
+type CredentialsFile = {
+  installations?: { [installationId: string]: JiraCredentials };
+  hosts?: { [host: string]: JiraCredentials };
+};
+
+const oauthTokenUrl = 'https://auth.atlassian.com/oauth/token';
+
+// in-flight and completed OAuth token refreshes, by client and refresh token
+const oauthTokens = new Map<string, Promise<OAuth2Credentials>>();
+
+// the pending write of the credentials file, so that refreshes don't overwrite each other
+let savingCredentials = Promise.resolve();
+
+export const isBearer = (c: JiraCredentials): c is BearerCredentials => 'token' in c;
+export const isOAuth2 = (c: JiraCredentials): c is OAuth2Credentials => 'refreshToken' in c;
+
+/**
+ * Read credentials from environment variables with the given prefix, e.g. `JIRA_TOKEN` or `JIRA_USER`/`JIRA_PASS`
+ * @param prefix the environment variable prefix
+ * @returns the credentials, or null if none are set
+ */
+const fromEnv = (prefix: string): JiraCredentials | null => {
+  const env = (name: string) => process.env[`${prefix}_${name}`] || '';
+  if (env('TOKEN')) {
+    return { token: env('TOKEN') };
+  }
+  if (env('CLIENT_ID') && env('REFRESH_TOKEN')) {
+    return {
+      clientId: env('CLIENT_ID'),
+      clientSecret: env('CLIENT_SECRET'),
+      refreshToken: env('REFRESH_TOKEN'),
+      cloudId: env('CLOUD_ID'),
+    };
+  }
+  if (env('USER')) {
+    return { username: env('USER'), password: env('PASS') };
+  }
+  return null;
+};
+
+/**
+ * Environment variable prefix for credentials specific to a Jira host, e.g. `JIRA_JIRA_MYCOMPANY_COM`
+ * @param host the Jira host
+ */
+export const hostEnvPrefix = (host: string) =>
+  `JIRA_${host.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+
+/**
+ * Resolve the credentials to use for a Jira host, checking (in order):
+ * the credentials file (by installation, then by host), host specific environment variables,
+ * and finally the global environment variables.
+ * @param options the `host`, GitHub `installationId` and whether it is a `cloud` deployment
+ * @returns a Promise for the credentials, along with where they came from
+ */
+export const resolveCredentials = async ({
+  host,
+  installationId,
+  cloud,
+}: {
+  host: string;
+  installationId?: number;
+  cloud?: boolean;
+}): Promise<ResolvedCredentials> => {
+  const file = process.env.JIRA_CREDENTIALS_FILE;
+  if (file) {
+    const { installations = {}, hosts = {} }: CredentialsFile = await fs.readJson(file);
+    if (installationId && installations[installationId]) {
+      return {
+        credentials: installations[installationId],
+        source: `installations.${installationId}`,
+      };
+    }
+    if (hosts[host]) {
+      return { credentials: hosts[host], source: `hosts.${host}` };
+    }
+  }
+  const hostCredentials = fromEnv(hostEnvPrefix(host));
+  if (hostCredentials) {
+    return { credentials: hostCredentials, source: hostEnvPrefix(host) };
+  }
+  if (cloud && process.env.JIRA_EMAIL) {
+    return {
+      credentials: {
+        username: process.env.JIRA_EMAIL,
+        password: process.env.JIRA_API_TOKEN || process.env.JIRA_PASS || '',
+      },
+      source: 'JIRA_EMAIL',
+    };
+  }
+  return {
+    credentials: fromEnv('JIRA') || {
+      username: process.env.JIRA_USER || '',
+      password: process.env.JIRA_PASS || '',
+    },
+    source: 'JIRA',
+  };
+};
+
+/**
+ * Resolve the credentials for a Jira host that sent a webhook. Only the hosts in the credentials file,
+ * or listed in `JIRA_WEBHOOK_HOSTS`, are trusted, so that the credentials are never sent to another host.
+ * @param host the Jira host, from the webhook payload
+ * @returns a Promise for the credentials, along with where they came from, or null for an unknown host
+ */
+export const resolveWebhookCredentials = async (
+  host: string,
+): Promise<ResolvedCredentials | null> => {
+  const file = process.env.JIRA_CREDENTIALS_FILE;
+  const { hosts = {} }: CredentialsFile = file ? await fs.readJson(file) : {};
+  const listed = (process.env.JIRA_WEBHOOK_HOSTS || '')
+    .split(',')
+    .map((h) => h.trim().toLowerCase())
+    .filter((h) => !!h);
+  if (!Object.keys(hosts).includes(host) && !listed.includes(host.toLowerCase())) {
+    return null;
+  }
+  return resolveCredentials({ host, cloud: host.endsWith('.atlassian.net') });
+};
+
+/**
+ * Write refreshed OAuth tokens back to the credentials file, so rotated refresh tokens survive a restart
+ * @param source where the credentials came from, as returned by `resolveCredentials`
+ * @param credentials the refreshed credentials
+ */
+const saveCredentials = (source: string, credentials: OAuth2Credentials) => {
+  const file = process.env.JIRA_CREDENTIALS_FILE;
+  const [section, ...key] = source.split('.');
+  if (!file || !['installations', 'hosts'].includes(section)) {
+    return Promise.resolve();
+  }
+  const saving = savingCredentials.then(async () => {
+    const contents: any = await fs.readJson(file);
+    contents[section][key.join('.')] = credentials;
+    await fs.writeJson(file, contents, { spaces: 2 });
+  });
+  savingCredentials = saving.catch(() => undefined);
+  return saving;
+};
+
+/**
+ * Exchange the refresh token for a new access token
+ * @param credentials the OAuth credentials
+ * @param source where the credentials came from, as returned by `resolveCredentials`
+ */
+const refreshAccessToken = async (credentials: OAuth2Credentials, source: string) => {
+  const r = await fetch(oauthTokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      grant_type: 'refresh_token',
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+      refresh_token: credentials.refreshToken,
+    }),
+  });
+  if (!r.ok) {
+    throw new Error(`Failed to refresh OAuth token: ${r.status}: ${await r.text()}`);
+  }
+  const { access_token, refresh_token, expires_in } = await r.json();
+  const refreshed: OAuth2Credentials = {
+    ...credentials,
+    accessToken: access_token,
+    // Atlassian rotates refresh tokens
+    refreshToken: refresh_token || credentials.refreshToken,
+    expiresAt: Date.now() + expires_in * 1000,
+  };
+  await saveCredentials(source, refreshed);
+  return refreshed;
+};
+
+/**
+ * Whether the access token is set, and doesn't expire within a minute
+ */
+const isFresh = (credentials: OAuth2Credentials) =>
+  !!credentials.accessToken &&
+  !!credentials.expiresAt &&
+  credentials.expiresAt >= Date.now() + 60000;
+
+/**
+ * Start refreshing the access token. The refresh is registered before anything is awaited,
+ * so that concurrent events share it rather than spending the rotating refresh token twice.
+ */
+const startRefresh = (key: string, credentials: OAuth2Credentials, source: string) => {
+  const refreshing = refreshAccessToken(credentials, source);
+  oauthTokens.set(key, refreshing);
+  refreshing.catch(() => {
+    if (oauthTokens.get(key) === refreshing) {
+      oauthTokens.delete(key);
+    }
+  });
+  return refreshing;
+};
+
+/**
+ * Get a valid OAuth access token, refreshing it if it has (or is about to) expire
+ * @param credentials the OAuth credentials
+ * @param source where the credentials came from, as returned by `resolveCredentials`
+ */
+const getAccessToken = async (credentials: OAuth2Credentials, source: string) => {
+  const key = `${credentials.clientId}:${credentials.refreshToken}`;
+  let refreshing = oauthTokens.get(key);
+  if (!refreshing) {
+    if (isFresh(credentials)) {
+      return credentials.accessToken!;
+    }
+    refreshing = startRefresh(key, credentials, source);
+  }
+  const current = await refreshing;
+  if (isFresh(current)) {
+    return current.accessToken!;
+  }
+  // expired since the last refresh: share a refresh that another event started meanwhile
+  const latest = oauthTokens.get(key);
+  const next = latest && latest !== refreshing ? latest : startRefresh(key, current, source);
+  return (await next).accessToken!;
+};
+
+/**
+ * Get the value of the Authorization header for requests to Jira
+ * @param credentials the credentials, as returned by `resolveCredentials`
+ * @param source where the credentials came from, as returned by `resolveCredentials`
+ * @returns a Promise for the header value
+ */
+export const getAuthorization = async (credentials: JiraCredentials, source: string) => {
+  if (isBearer(credentials)) {
+    return `Bearer ${credentials.token}`;
+  }
+  if (isOAuth2(credentials)) {
+    return `Bearer ${await getAccessToken(credentials, source)}`;
+  }
+  return `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString(
+    'base64',
+  )}`;
+};
@@ -1,33 +1,131 @@
-import { Probot } from 'probot';
+import { Probot, ApplicationFunctionOptions } from 'probot';
 import _ from 'lodash';
-import { logEvent, getJira, writeComment, getPrAssignee } from './probotHelpers';
+import {
+  logEvent,
+  getJira,
+  writeComment,
+  getPrAssignee,
+  setStickyStatus,
+  stripSummary,
+  stripBotContent,
+} from './probotHelpers';
 import { markdownToJira } from './j2m';
+import { markdownToAdf } from './adf';
+import { runWorkflow, getWorkflowRules, WorkflowEvent } from './workflow';
+import { registerJiraWebhook } from './jiraWebhook';
+import { reportCheck, reportCheckError, refreshCheck } from './checks';
+import { parseCommand, runCommand } from './commands';
+import { renderStatus, updateSummary, refreshSummary } from './summary';
+import { logDevelopmentTime, logReviewTime, getReviewTime } from './worklog';
+import { syncFixVersion, syncRelease } from './releases';
+import { syncLabel, mirrorJiraLabels } from './labels';
+import { getTeamReviewers } from './teams';
+import { describeJiraError, ValidationError } from './jiraClient';
+import { coalesce } from './cache';
+import { saveComment } from './jiraApi';
+import type { JiraIssue } from './jiraApi';
+
+// how long to wait for more reviewer changes to a PR before updating Jira, in ms
+const reviewerUpdateDelay = 1000;
 
 /**
  * The Probot library acts as the entrypoint, and handles much of the application logic for us.
  * Here we export a function, which is loaded by Probot as middleware.
  */
-export = (app: Probot) => {
+export = (app: Probot, options: ApplicationFunctionOptions) => {
+  /**
+   * Receive webhooks from Jira, to sync changes back to the linked PRs
+   */
+  registerJiraWebhook(app, options);
+
   /**
-   * When an issue is opened, write a comment instructing the user to use Jira instead.
+   * When an issue is opened, create a matching Jira issue and close the GitHub issue.
+   * If issue creation is disabled, write a comment instructing the user to use Jira instead.
+   * Issues opened by bots are left alone.
    */
   app.on('issues.opened', async (context) => {
     await logEvent(context);
+    if (context.payload.sender?.type === 'Bot') {
+      return;
+    }
     const jira = await getJira(context);
     if (!jira) {
       // Jira is not configured for this project, do nothing
       return;
     }
-    // TODO: actually create the Jira issue and close the GitHub issue
+    if (!jira.issues?.create || !jira.projectKey) {
+      await writeComment(context, `Please create issues in [Jira](${jira.projectUrl}).`);
+      return;
+    }
+    const {
+      number: ghIssueId,
+      title,
+      body,
+      html_url: ghIssueUrl,
+      labels = [],
+      user,
+    } = context.payload.issue;
+    const issueType =
+      labels.map((l) => jira.issues.issueTypes?.[l.name]).find((t) => !!t) ||
+      jira.issues.defaultIssueType;
+    const reporter = await jira.toJiraUserKey(context, user.login);
+    const footer = `Created from GitHub issue [#${ghIssueId}](${ghIssueUrl})`;
+
+    const fields = {
+      project: { key: jira.projectKey },
+      issuetype: { name: issueType },
+      summary: title,
+      description: (jira.cloud ? markdownToAdf : markdownToJira)(
+        `${body || ''}\n\n---\n\n${footer}`,
+      ),
+    };
+    const createIssue = (withReporter: boolean) =>
+      jira.fetch('issue', {
+        method: 'POST',
+        body: JSON.stringify({
+          fields: {
+            ...fields,
+            ...(reporter && withReporter ? { reporter: jira.userRef(reporter) } : {}),
+          },
+        }),
+      });
+
+    let created;
+    try {
+      try {
+        created = await createIssue(true);
+      } catch (err) {
+        // the reporter can only be set with the "Modify Reporter" permission, and when it is on the create screen
+        if (!(reporter && err instanceof ValidationError && 'reporter' in err.errors)) {
+          throw err;
+        }
+        context.log.warn(`Jira rejected the reporter ${reporter}, creating the issue without it`);
+        created = await createIssue(false);
+      }
+    } catch (err) {
+      app.log.error(`Failed to create Jira issue: ${err.message}`);
+      await writeComment(
+        context,
+        `Warning: failed to create a Jira issue, please create issues in [Jira](${jira.projectUrl}).`,
+      );
+      return;
+    }
+
+    await jira.setCachedIssues(context, [created.key]);
     await writeComment(
       context,
-      `Please create issues in [Jira](${jira.url}/browse/${jira.projectKey}).`,
+      `This issue has been moved to Jira: ${jira.issueLinkMd(
+        created.key,
+      )}. Please continue the discussion there.`,
     );
+    await context.octokit.issues.update(context.issue({ state: 'closed' }));
   });
 
   /**
-   * When a PR is created/edited, check for a corresponding Jira issue key in the title.
+   * When a PR is created/edited, check for corresponding Jira issue keys in the title (or other `detection` sources).
    * Comments are written with links when successful, or with error messages for failures or incorrect use.
+   * Issues linked with `/jira link` stay linked, and edits that only change what this bot writes
+   * (the metadata and the issue summary) are ignored.
    */
   app.on(['pull_request.opened', 'pull_request.edited'], async (context) => {
     await logEvent(context);
@@ -42,116 +140,165 @@ export = (app: Probot) => {
       app.log.debug('Title and body unchanged by edit, ignoring.');
       return;
     }
+    if (
+      action === 'edited' &&
+      !(payload as any).changes?.title &&
+      stripBotContent((payload as any).changes.body.from) ===
+        stripBotContent(payload.pull_request.body)
+    ) {
+      app.log.debug('Only the metadata or summary changed by edit, ignoring.');
+      return;
+    }
     const jira = await getJira(context);
     if (!jira) {
       // Jira is not configured for this project, do nothing
       return;
     }
     const {
-      title: prTitle,
       html_url: prUrl,
       number: prId,
       body: prBody,
       requested_reviewers: prReviewers,
+      requested_teams: prTeams,
       user: prUser,
     } = context.payload.pull_request;
-    const { issue: detectedIssue, description: prTitleText } = jira.parseTitle(prTitle);
-    const existingIssue = action === 'opened' ? null : await jira.getCachedIssue(context);
-    const issueDetail = detectedIssue ? await jira.getIssueDetail(context, detectedIssue) : null;
+    const {
+      issues: detected,
+      source: detectedSource,
+      description: prTitleText,
+    } = await jira.detectIssues(context);
+    const linked = action === 'opened' ? null : await jira.getLinkedIssues(context);
+    const existingIssues = linked?.issues || null;
+    // only the detected issues are unlinked when no longer detected, not those linked with `/jira link`
+    const detectedIssues = _.union(
+      detected,
+      _.intersection(linked?.commandIssues || [], existingIssues || []),
+    );
+    let issueDetails: { [issue: string]: JiraIssue | null };
+    try {
+      issueDetails = _.zipObject(
+        detectedIssues,
+        await Promise.all(detectedIssues.map((issue) => jira.getIssueDetail(context, issue))),
+      );
+    } catch (err) {
+      // not a missing issue, so don't report it as one
+      app.log.error(`Failed to get Jira issues: ${err.message}`);
+      await writeComment(
+        context,
+        `Warning: could not check ${detectedIssues
+          .map((i) => `\`${i}\``)
+          .join(', ')} as ${describeJiraError(err)}. Edit the PR to try again.`,
+      );
+      await reportCheckError(context, jira, detectedIssues, err);
+      return;
+    }
+    setStickyStatus(context, renderStatus(jira, detectedIssues, issueDetails));
 
-    if (detectedIssue === existingIssue) {
-      // issue hasn't changed, nothing to do
-      app.log.debug(`Issue unchanged: ${existingIssue || '<empty>'}`);
+    if (existingIssues && _.isEqual(_.sortBy(detectedIssues), _.sortBy(existingIssues))) {
+      // issues haven't changed, nothing to do
+      app.log.debug(`Issues unchanged: ${existingIssues.join(', ') || '<empty>'}`);
     } else {
-      if (existingIssue) {
-        // remove the old reference
+      // remove the old references
+      for (const existingIssue of _.difference(existingIssues || [], detectedIssues)) {
         app.log.debug(`Removing existing issue: ${existingIssue}`);
-        try {
-          const existingLinks = ((await jira.fetch(
-            `issue/${existingIssue}/remotelink`,
-          )) as any[]).filter((link) => link?.object?.url === prUrl);
-          await Promise.all(
-            existingLinks.map(async ({ self }) => {
-              app.log.info(`Deleting link ${self}`);
-              await jira.fetch(self, { method: 'DELETE' });
-            }),
-          );
-        } catch (err) {
-          app.log.info(`Removing existing link from Jira issue failed`, err);
-        }
+        await jira.removeRemoteLink(context, existingIssue, prUrl);
       }
 
-      if (detectedIssue) {
-        if (issueDetail) {
-          app.log.debug(`Adding new issue: ${detectedIssue}`);
-          const existingLinks = (await jira.fetch(`issue/${detectedIssue}/remotelink`)) as any[];
-          if (!existingLinks.some((link) => link?.object?.url === prUrl)) {
-            await jira.fetch(`issue/${detectedIssue}/remotelink`, {
-              method: 'POST',
-              body: JSON.stringify({
-                object: {
-                  url: prUrl,
-                  title: `GitHub PR #${prId} - ${prTitleText}`,
-                },
-              }),
-            });
-            await writeComment(
-              context,
-              `Successfully linked this PR to Jira: ${jira.issueLinkMd(detectedIssue)}`,
-            );
-          } else {
-            app.log.info(`Jira issue already has link to PR #${prId}`);
-          }
-        } else {
-          await writeComment(
+      const linkedIssues: string[] = [];
+      const missingIssues: string[] = [];
+      for (const detectedIssue of _.difference(detectedIssues, existingIssues || [])) {
+        if (!issueDetails[detectedIssue]) {
+          missingIssues.push(detectedIssue);
+          continue;
+        }
+        app.log.debug(`Adding new issue: ${detectedIssue}`);
+        if (
+          await jira.addRemoteLink(
             context,
-            `The specified issue \`${detectedIssue}\` could not be found in Jira.`,
-          );
+            detectedIssue,
+            prUrl,
+            `GitHub PR #${prId} - ${prTitleText}`,
+          )
+        ) {
+          linkedIssues.push(detectedIssue);
         }
-      } else {
+      }
+
+      if (linkedIssues.length) {
         await writeComment(
           context,
-          `Warning: no Jira issue is associated with this PR. Prefix the PR title with \`${jira.projectKey}-0:\`.`,
+          `Successfully linked this PR to Jira: ${linkedIssues
+            .map((i) => jira.issueLinkMd(i))
+            .join(', ')} (detected in ${jira.sourceName(detectedSource!)})`,
+        );
+      }
+      if (missingIssues.length) {
+        await writeComment(
+          context,
+          missingIssues.length === 1
+            ? `The specified issue \`${missingIssues[0]}\` could not be found in Jira.`
+            : `The specified issues ${missingIssues
+                .map((i) => `\`${i}\``)
+                .join(', ')} could not be found in Jira.`,
+        );
+      }
+      if (!detectedIssues.length) {
+        const prefixes = (await jira.getValidProjectKeys(context)).map((k) => `\`${k}-0:\``);
+        await writeComment(
+          context,
+          `Warning: no Jira issue is associated with this PR. Prefix the PR title with ${
+            prefixes.length > 1
+              ? `${prefixes.slice(0, -1).join(', ')} or ${prefixes[prefixes.length - 1]}`
+              : prefixes[0] || 'a Jira issue key'
+          }.`,
         );
       }
 
-      // Record the new issue in the metadata
-      await jira.setCachedIssue(context, detectedIssue);
+      // Record the new issues in the metadata
+      await jira.setCachedIssues(context, detectedIssues);
     }
+    await reportCheck(context, jira, detectedIssues, issueDetails);
 
     // sync PR + Jira detail
-    if (detectedIssue && issueDetail) {
+    const login = getPrAssignee(context);
+    const existingPrReviewers = prReviewers.map((r) => r.login);
+    // reviewers covered by a requested team are not requested individually
+    const teamReviewers = jira.fields.reviewers
+      ? await getTeamReviewers(context, jira, prTeams)
+      : { logins: [], jiraKeys: [] };
+    const teamLogins = _.without(teamReviewers.logins, prUser.login);
+    for (const detectedIssue of detectedIssues) {
+      const issueDetail = issueDetails[detectedIssue];
+      if (!issueDetail) {
+        continue;
+      }
+
       // Jira comment containing PR link and description
       const prefix = 'Linked to GitHub PR';
-      const body = `${prefix} [#${prId} - ${prTitleText}|${prUrl}]\n----\n${markdownToJira(
-        prBody
-          .split('\n')
-          .filter((l) => !l.startsWith('<!--'))
-          .join('\n'),
-      )}`;
-      const existingComment = (issueDetail.fields?.comment?.comments || []).find(
-        (c: any) => c.author.name === jira.username && c.body.startsWith(prefix),
-      );
+      const prBodyMd = stripSummary(prBody)
+        .split('\n')
+        .filter((l) => !l.startsWith('<!--'))
+        .join('\n');
+      const body = jira.cloud
+        ? markdownToAdf(`${prefix} [#${prId} - ${prTitleText}](${prUrl})\n\n---\n\n${prBodyMd}`, {
+            mentions: await jira.getMentions(context, prBodyMd),
+          })
+        : `${prefix} [#${prId} - ${prTitleText}|${prUrl}]\n----\n${markdownToJira(prBodyMd)}`;
       try {
-        if (existingComment) {
-          await jira.fetch(`issue/${detectedIssue}/comment/${existingComment.id}`, {
-            method: 'PUT',
-            body: JSON.stringify({ body }),
-          });
-        } else {
-          await jira.fetch(`issue/${detectedIssue}/comment`, {
-            method: 'POST',
-            body: JSON.stringify({ body }),
-          });
-        }
+        const self = await jira.getSelf();
+        const existingComment = (issueDetail.fields.comment?.comments || []).find(
+          (c) =>
+            jira.userKey(c.author) === jira.userKey(self) &&
+            jira.fromRichText(c.body).startsWith(prefix),
+        );
+        await saveComment(jira, detectedIssue, body, existingComment?.id);
       } catch (err) {
         app.log.error(`Failed to add Jira comment: ${err.message}`);
       }
 
       // Sync the assignee, if not already set
-      const login = getPrAssignee(context);
-      if (!login && issueDetail.fields?.assignee?.name) {
-        const ghUser = jira.toGitHubUser(issueDetail.fields?.assignee?.name);
+      if (!login && jira.userKey(issueDetail.fields.assignee)) {
+        const ghUser = await jira.toGitHubUser(context, issueDetail.fields.assignee);
         if (ghUser) {
           await context.octokit.issues.addAssignees(
             context.issue({
@@ -159,22 +306,30 @@ export = (app: Probot) => {
             }),
           );
         }
-      } else if (login && !issueDetail.fields?.assignee) {
+      } else if (login && !issueDetail.fields.assignee) {
         await jira.setAssignee(context, detectedIssue, login);
       }
 
+      // Sync labels from Jira
+      await mirrorJiraLabels(context, jira, issueDetail);
+
       // Sync reviewers
       if (jira.fields.reviewers) {
-        const existingPrReviewers = prReviewers.map((r) => r.login);
-        const existingJiraReviewers = (issueDetail.fields?.[jira.fields.reviewers] || []).map(
-          (r: any) => r.name,
-        );
+        const jiraReviewers = jira.getReviewers(issueDetail);
+        const existingJiraReviewers = jiraReviewers
+          .map((r) => jira.userKey(r))
+          .filter((k): k is string => !!k);
 
         const toAddToPr = _.difference(
-          existingJiraReviewers
-            .map((j: string) => jira.toGitHubUser(j))
-            .filter((u: string | null) => !!u),
+          (
+            await Promise.all(
+              jiraReviewers
+                .filter((j) => !teamReviewers.jiraKeys.includes(jira.userKey(j) || ''))
+                .map((j) => jira.toGitHubUser(context, j)),
+            )
+          ).filter((u): u is string => !!u),
           existingPrReviewers,
+          teamLogins,
           [prUser.login],
         );
         if (toAddToPr.length) {
@@ -184,25 +339,32 @@ export = (app: Probot) => {
                 reviewers: toAddToPr,
               }),
             );
+            existingPrReviewers.push(...toAddToPr);
           } catch (err) {
             app.log.error(`Failed to set PR reviewers: ${err.message}`);
           }
         }
 
         const toAddToJira = _.difference(
-          existingPrReviewers.map((g: string) => jira.userMap[g]).filter((u) => !!u),
+          [
+            ...(
+              await Promise.all(
+                _.union(existingPrReviewers, teamLogins).map((g) => jira.toJiraUserKey(context, g)),
+              )
+            ).filter((u): u is string => !!u),
+            ...teamReviewers.jiraKeys,
+          ],
           existingJiraReviewers,
         );
-        if (toAddToJira) {
+        if (toAddToJira.length) {
           try {
             await jira.fetch(`issue/${detectedIssue}`, {
               method: 'PUT',
               body: JSON.stringify({
                 fields: {
-                  [jira.fields.reviewers]: _.union(
-                    toAddToJira,
-                    existingJiraReviewers,
-                  ).map((name) => ({ name })),
+                  [jira.fields.reviewers]: _.union(toAddToJira, existingJiraReviewers).map((key) =>
+                    jira.userRef(key),
+                  ),
                 },
               }),
             });
@@ -211,6 +373,48 @@ export = (app: Probot) => {
           }
         }
       }
+
+      if (action === 'opened') {
+        await runWorkflow(context, jira, 'opened', detectedIssue);
+      }
+    }
+    await updateSummary(context, jira, detectedIssues, issueDetails);
+  });
+
+  /**
+   * When new commits are pushed to a PR, report the Jira check on the new head commit
+   */
+  app.on('pull_request.synchronize', async (context) => {
+    await logEvent(context);
+    const jira = await getJira(context);
+    if (!jira?.checks?.enabled) {
+      return;
+    }
+    await refreshCheck(context, jira, await jira.getCachedIssues(context));
+  });
+
+  /**
+   * When a PR comment contains a `/jira` command, run it
+   */
+  app.on('issue_comment.created', async (context) => {
+    const { issue, comment, sender } = context.payload as any;
+    if (!issue.pull_request || sender.type === 'Bot') {
+      return;
+    }
+    const command = parseCommand(comment.body);
+    if (!command) {
+      return;
+    }
+    await logEvent(context);
+    const jira = await getJira(context);
+    if (!jira) {
+      // Jira is not configured for this project, do nothing
+      return;
+    }
+    const linked = await runCommand(context, jira, command);
+    if (linked) {
+      await refreshSummary(context, jira, linked);
+      await refreshCheck(context, jira, linked);
     }
   });
 
@@ -230,12 +434,15 @@ export = (app: Probot) => {
       // Jira is not configured for this project, do nothing
       return;
     }
-    const issue = await jira.getCachedIssue(context);
-    if (!issue) {
+    const issues = await jira.getCachedIssues(context);
+    if (!issues.length) {
       app.log.warn('Cannot update assignee, no issue associated.');
       return;
     }
-    await jira.setAssignee(context, issue, login);
+    for (const issue of issues) {
+      await jira.setAssignee(context, issue, login);
+    }
+    await refreshSummary(context, jira, issues);
   });
 
   /**
@@ -246,21 +453,180 @@ export = (app: Probot) => {
     async (context) => {
       await logEvent(context);
       const jira = await getJira(context);
-      if (!jira || !jira.fields?.reviewers) {
+      if (!jira) {
         // Jira is not configured for this project, do nothing
         return;
       }
-      const issue = await jira.getCachedIssue(context);
-      if (!issue) {
+      const runRules =
+        context.payload.action === 'review_requested' &&
+        getWorkflowRules(context, jira, 'review_requested').length > 0;
+      if (!jira.fields?.reviewers && !runRules) {
+        // Nothing to sync for this project
+        return;
+      }
+      const issues = await jira.getCachedIssues(context);
+      if (!issues.length) {
         app.log.warn('Cannot update reviewers, no issue associated.');
         return;
       }
-      const { requested_reviewers } = context.payload.pull_request;
-      await jira.setReviewers(
-        context,
-        issue,
-        requested_reviewers.map((r) => r.login),
-      );
+      if (jira.fields?.reviewers) {
+        // requesting several reviewers sends an event for each, so only set the final list
+        const { owner, repo, pull_number } = context.pullRequest();
+        await coalesce(`${owner}/${repo}#${pull_number}`, reviewerUpdateDelay, async () => {
+          const { requested_reviewers, requested_teams, user } = context.payload.pull_request;
+          const teams = await getTeamReviewers(context, jira, requested_teams);
+          for (const issue of issues) {
+            await jira.setReviewers(
+              context,
+              issue,
+              requested_reviewers.map((r) => r.login),
+              { ...teams, logins: _.without(teams.logins, user.login) },
+            );
+          }
+        });
+      }
+      if (runRules) {
+        for (const issue of issues) {
+          await runWorkflow(context, jira, 'review_requested', issue);
+        }
+      }
+      await refreshSummary(context, jira, issues);
+    },
+  );
+
+  /**
+   * When a PR review is submitted, transition the Jira issue according to the review state,
+   * and log the review time if enabled
+   */
+  app.on('pull_request_review.submitted', async (context) => {
+    await logEvent(context);
+    const jira = await getJira(context);
+    if (!jira) {
+      // Jira is not configured for this project, do nothing
+      return;
+    }
+    const state = context.payload.review.state.toLowerCase() as keyof typeof jira.transitions &
+      WorkflowEvent;
+    const status = jira.transitions?.[state];
+    const runRules = getWorkflowRules(context, jira, state).length > 0;
+    const logTime = !!getReviewTime(
+      jira,
+      context.payload.review,
+      context.payload.pull_request.user?.login,
+    );
+    if (!status && !runRules && !logTime) {
+      app.log.debug(`No transition configured for review state: ${state}`);
+      return;
+    }
+    const issues = await jira.getCachedIssues(context);
+    if (!issues.length) {
+      app.log.warn('Cannot transition issue, no issue associated.');
+      return;
+    }
+    for (const issue of issues) {
+      if (status) {
+        await jira.transitionIssue(context, issue, status);
+      }
+      await runWorkflow(context, jira, state, issue);
+    }
+    await logReviewTime(context, jira, issues);
+    await refreshSummary(context, jira, issues);
+  });
+
+  /**
+   * When a PR is closed, transition the Jira issue depending on whether or not it was merged,
+   * log the development time, and set the fix version for a release branch, if enabled
+   */
+  app.on('pull_request.closed', async (context) => {
+    await logEvent(context);
+    const jira = await getJira(context);
+    if (!jira) {
+      // Jira is not configured for this project, do nothing
+      return;
+    }
+    const issues = await jira.getCachedIssues(context);
+    if (!issues.length) {
+      app.log.warn('Cannot update issue, no issue associated.');
+      return;
+    }
+    const { merged, html_url: prUrl } = context.payload.pull_request;
+    for (const issue of issues) {
+      if (merged) {
+        if (jira.transitions?.merged) {
+          await jira.transitionIssue(
+            context,
+            issue,
+            jira.transitions.merged,
+            jira.resolution ? { resolution: { name: jira.resolution } } : undefined,
+          );
+        }
+      } else {
+        if (jira.transitions?.closed) {
+          await jira.transitionIssue(context, issue, jira.transitions.closed);
+        }
+        if (jira.unlinkOnClose) {
+          app.log.debug(`Removing link from issue: ${issue}`);
+          await jira.removeRemoteLink(context, issue, prUrl);
+        }
+      }
+      await runWorkflow(context, jira, merged ? 'merged' : 'closed', issue);
+    }
+    await logDevelopmentTime(context, jira, issues);
+    await syncFixVersion(context, jira, issues);
+    await refreshSummary(context, jira, issues);
+  });
+
+  /**
+   * When a draft PR is marked ready, or a PR is labeled, run any matching workflow rules.
+   * When a PR is labeled or unlabeled, update the mapped Jira labels, components and priority.
+   */
+  app.on(
+    ['pull_request.ready_for_review', 'pull_request.labeled', 'pull_request.unlabeled'],
+    async (context) => {
+      await logEvent(context);
+      const jira = await getJira(context);
+      if (!jira) {
+        // Jira is not configured for this project, do nothing
+        return;
+      }
+      const event = context.payload.action as WorkflowEvent;
+      const runRules = getWorkflowRules(context, jira, event).length > 0;
+      const { label, sender } = context.payload as any;
+      // labels added by the bot are mirrored from Jira, so don't need syncing back
+      const syncLabels = !!jira.labelMap?.[label?.name] && sender?.type !== 'Bot';
+      if (!runRules && !syncLabels) {
+        app.log.debug(`No workflow rules or label mapping for event: ${event}`);
+        return;
+      }
+      const issues = await jira.getCachedIssues(context);
+      if (!issues.length) {
+        app.log.warn('Cannot run workflow, no issue associated.');
+        return;
+      }
+      if (syncLabels) {
+        await syncLabel(context, jira, issues);
+      }
+      for (const issue of issues) {
+        await runWorkflow(context, jira, event, issue);
+      }
+      await refreshSummary(context, jira, issues);
     },
   );
+
+  /**
+   * When a GitHub release is published, sync it to the Jira fix version of the issues it contains
+   */
+  app.on('release.published', async (context) => {
+    await logEvent(context);
+    const jira = await getJira(context);
+    if (!jira) {
+      // Jira is not configured for this project, do nothing
+      return;
+    }
+    try {
+      await syncRelease(context, jira);
+    } catch (err) {
+      app.log.error(`Failed to sync release to Jira: ${err.message}`);
+    }
+  });
 };
@@ -1,100 +1,341 @@
 // forked from https://github.com/FokkeZB/J2M
+import { marked } from 'marked';
+import { unescape } from './adf';
 
 type Replacement = {
   key: string,
   value: string,
 }
 
+type Token = marked.Token;
+
+// Jira markup for inline HTML tags, as used in GitHub Markdown
+const htmlMarkers: { [tag: string]: string } = {
+  b: '*',
+  strong: '*',
+  i: '_',
+  em: '_',
+  del: '-',
+  s: '-',
+  strike: '-',
+  ins: '+',
+  u: '+',
+  sup: '^',
+  sub: '~',
+  cite: '??',
+};
+
+// GitHub alerts, e.g. `> [!NOTE]`
+const alertRegex = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*(?:\n|$)/i;
+
 /**
- * Takes Markdown and converts it to Jira formatted text
+ * Escape text so that Jira doesn't treat it as markup.
+ * Effect markers are only escaped where they could open or close an effect,
+ * so that e.g. `snake_case` and `well-known` are left alone.
+ */
+const escapeText = (text: string) =>
+  text.replace(/[{[|]/g, '\\$&').replace(/[*_+^~-]/g, (marker, offset: number, str: string) => {
+    const before = str[offset - 1] || '';
+    const after = str[offset + 1] || '';
+    const opening = !/\w/.test(before) && !!after && !/\s/.test(after);
+    const closing = !!before && !/\s/.test(before) && !/\w/.test(after);
+    return opening || closing ? '\\' + marker : marker;
+  });
+
+/**
+ * Converts the tokens produced by the `marked` lexer into Jira formatted text
+ */
+class JiraConverter {
+  /**
+   * Convert inline tokens into Jira formatted text
+   */
+  inline(tokens: Token[] = []): string {
+    return tokens
+      .map((token): string => {
+        switch (token.type) {
+          case 'text':
+            return 'tokens' in token && token.tokens?.length
+              ? this.inline(token.tokens)
+              : escapeText(unescape(token.text));
+          case 'escape': {
+            const text = unescape(token.text);
+            return /[*_+^~\-{}[\]|#!?]/.test(text) ? '\\' + text : text;
+          }
+          case 'strong':
+            return '*' + this.inline(token.tokens) + '*';
+          case 'em':
+            return '_' + this.inline(token.tokens) + '_';
+          case 'del':
+            return '-' + this.inline(token.tokens) + '-';
+          case 'codespan':
+            return '{{' + escapeText(unescape(token.text)).replace(/}/g, '\\}') + '}}';
+          case 'link':
+            return token.text === token.href
+              ? '[' + token.href + ']'
+              : '[' + this.inline(token.tokens) + '|' + token.href + ']';
+          case 'image':
+            return '!' + token.href + '!';
+          case 'br':
+            return '\n';
+          case 'html':
+            return this.inlineHtml(token.text);
+          default:
+            return 'text' in token && token.text ? escapeText(unescape(token.text)) : '';
+        }
+      })
+      .join('');
+  }
+
+  /**
+   * Convert an inline HTML tag, dropping any tags that Jira has no markup for
+   */
+  private inlineHtml(html: string) {
+    const image = html.match(/^<img\b[^>]*?\bsrc=["']([^"']+)["']/i);
+    if (image) {
+      return '!' + image[1] + '!';
+    }
+    const tag = html.match(/^<(\/?)(\w+)[^>]*>$/);
+    if (!tag) {
+      return '';
+    }
+    const [, closing, name] = tag;
+    if (name.toLowerCase() === 'br') {
+      return '\n';
+    }
+    if (['code', 'kbd'].includes(name.toLowerCase())) {
+      return closing ? '}}' : '{{';
+    }
+    return htmlMarkers[name.toLowerCase()] || '';
+  }
+
+  /**
+   * Convert a list, nesting the items of inner lists by repeating the markers
+   */
+  private list(list: marked.Tokens.List, prefix: string): string {
+    const marker = prefix + (list.ordered ? '#' : '*');
+    return list.items
+      .map((item) => {
+        const task = item.task ? (item.checked ? '☑ ' : '☐ ') : '';
+        const content = this.blocks(item.tokens.filter((t) => t.type !== 'list')).join('\n');
+        const nested = item.tokens
+          .filter((t): t is marked.Tokens.List => t.type === 'list')
+          .map((t) => this.list(t, marker));
+        return [marker + ' ' + task + content, ...nested].join('\n');
+      })
+      .join('\n');
+  }
+
+  /**
+   * Convert an HTML block, keeping images and the text content
+   */
+  private html(html: string) {
+    return html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(
+        /<img\b[^>]*?\bsrc=["']([^"']+)["'][^>]*>|<br\s*\/?>|<[^>]*>|([^<]+)/gi,
+        (tag, src, text) =>
+          src ? '!' + src + '!' : text ? escapeText(unescape(text)) : /^<br/i.test(tag) ? '\n' : '',
+      )
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => !!line)
+      .join('\n');
+  }
+
+  /**
+   * Convert block level tokens into Jira formatted text, one entry per block
+   */
+  blocks(tokens: Token[] = []): string[] {
+    return tokens
+      .map((token): string => {
+        switch (token.type) {
+          case 'heading':
+            return 'h' + token.depth + '. ' + this.inline(token.tokens);
+          case 'paragraph':
+          case 'text':
+            // the items of tight lists hold text, rather than paragraphs
+            return this.inline('tokens' in token && token.tokens ? token.tokens : [token])
+              .replace(/[ \t]+$/gm, '')
+              .replace(/^#/gm, '\\#');
+          case 'code': {
+            const lang = (token.lang || '').split(/\s/)[0];
+            return '{code' + (lang ? ':' + lang : '') + '}\n' + token.text + '\n{code}';
+          }
+          case 'blockquote': {
+            const alert = token.text.match(alertRegex);
+            if (alert) {
+              const title = alert[1][0].toUpperCase() + alert[1].slice(1).toLowerCase();
+              const content = this.blocks(
+                marked.lexer(token.text.slice(alert[0].length), { gfm: true }),
+              );
+              return ['{panel:title=' + title + '}', ...content, '{panel}'].join('\n');
+            }
+            return ['{quote}', this.blocks(token.tokens).join('\n\n'), '{quote}'].join('\n');
+          }
+          case 'hr':
+            return '----';
+          case 'list':
+            return this.list(token, '');
+          case 'table': {
+            const cell = ({ tokens }: marked.Tokens.TableCell) => this.inline(tokens) || ' ';
+            return [
+              '||' + token.header.map(cell).join('||') + '||',
+              ...token.rows.map((row) => '|' + row.map(cell).join('|') + '|'),
+            ].join('\n');
+          }
+          case 'html':
+            return this.html(token.text);
+          default:
+            return '';
+        }
+      })
+      .filter((block) => !!block);
+  }
+}
+
+/**
+ * Takes Markdown (GitHub flavored) and converts it to Jira formatted text
  *
  * @param {string} input
  * @returns {string}
  */
 export function markdownToJira(input: string) {
-  // remove sections that shouldn't recursively processed
-  const START = 'J2MBLOCKPLACEHOLDER';
-  const replacementsList: Replacement[] = [];
-  let counter = 0;
+  const tokens = marked.lexer(input || '', { gfm: true });
+  return new JiraConverter().blocks(tokens).join('\n\n');
+}
 
-  input = input.replace(/`{3,}(\w+)?((?:\n|.)+?)`{3,}/g, function (_, synt, content) {
-    let code = '{code';
+/**
+ * Escapes GitHub `@login` mentions with a zero-width space, so that text from Jira doesn't
+ * notify GitHub users or teams. Email addresses and URLs are left as they are.
+ *
+ * @param {string} input
+ * @returns {string}
+ */
+export function escapeMentions(input: string) {
+  return input.replace(/(^|[^\w@/.])@(?=[a-z\d])/gi, '$1@\u200b');
+}
 
-    if (synt) {
-      code += ':' + synt;
-    }
+type JiraToMarkdownOptions = {
+  // map of Jira usernames / accountIds to GitHub logins, for `[~user]` mentions
+  users?: { [jiraUser: string]: string };
+};
 
-    code += '}' + content + '{code}';
+/**
+ * Prefix each line of a block, e.g. to make a Markdown blockquote
+ */
+const prefixLines = (content: string, prefix: string) =>
+  content
+    .split('\n')
+    .map((line) => (prefix + line).trimEnd())
+    .join('\n');
+
+/**
+ * Takes Jira formatted text and converts it to Markdown
+ *
+ * @param {string} input
+ * @param {JiraToMarkdownOptions} options
+ * @returns {string}
+ */
+export function jiraToMarkdown(input: string, options: JiraToMarkdownOptions = {}) {
+  // remove sections that shouldn't be recursively processed
+  const START = 'M2JBLOCKPLACEHOLDER';
+  const replacementsList: Replacement[] = [];
+  let counter = 0;
+  const placeholder = (value: string) => {
     const key = START + counter++ + '%%';
-    replacementsList.push({ key: key, value: code });
+    replacementsList.push({ key: key, value: value });
     return key;
-  });
+  };
 
-  input = input.replace(/^(.*?)\n([=-])+$/gm, function (_, content, level) {
-    return 'h' + (level[0] === '=' ? 1 : 2) + '. ' + content;
+  input = input.replace(/\r\n/g, '\n');
+  input = input.replace(
+    /(?<!\{)\{(code|noformat)(?::([^}|]*?))?(?:\|[^}]*)?\}\n?([^]*?)\n?\{\1\}/g,
+    function (_, type, synt, content) {
+      const lang = type === 'code' && synt && !synt.includes('=') ? synt : '';
+      return placeholder('```' + lang + '\n' + content + '\n```');
+    },
+  );
+  input = input.replace(/\{\{([^}]+)\}\}/g, function (_, content) {
+    return placeholder('`' + content + '`');
   });
 
-  input = input.replace(/^([#]+)(.*?)$/gm, function (_, level, content) {
-    return 'h' + level.length + '.' + content;
+  // mentions, only linked to GitHub users in the map
+  input = input.replace(/\[~(?:accountid:)?([^\]]+)\]/g, function (_, user) {
+    const login = options.users?.[user];
+    return placeholder(login ? '@' + login : user);
   });
+  // other `@login` text isn't a Jira mention, so must not notify GitHub users
+  input = escapeMentions(input);
 
-  input = input.replace(/([*_]+)(.*?)\1/g, function (_, wrapper, content) {
-    const to = wrapper.length === 1 ? '_' : '*';
-    return to + content + to;
+  // links and images, protected so that URLs aren't formatted
+  input = input.replace(/!([^\s!|]+)(?:\|[^!]*)?!/g, function (_, url) {
+    return placeholder('![](' + url + ')');
   });
-  // Make multi-level bulleted lists work
-  input = input.replace(/^(\s*)- (.*)$/gm, function (_, level, content) {
-    let len = 2;
-    if (level.length > 0) {
-      len = Math.floor(level.length / 4.0) + 2;
-    }
-    return Array(len).join('-') + ' ' + content;
+  input = input.replace(/\[([^|\]]+)\|([^\]]+)\]/g, function (_, text, url) {
+    return '[' + text + '](' + placeholder(url) + ')';
+  });
+  input = input.replace(/\[((?:https?|mailto):[^\]]+)\]/g, function (_, url) {
+    return placeholder('<' + url + '>');
   });
 
-  const map: { [key: string]: string } = {
-    cite: '??',
-    del: '-',
-    ins: '+',
-    sup: '^',
-    sub: '~',
-  };
+  input = input.replace(/^-{4,}[ \t]*$/gm, '---');
 
-  input = input.replace(
-    new RegExp('<(' + Object.keys(map).join('|') + ')>(.*?)</\\1>', 'g'),
-    (_, from, content) => {
-      const to = map[from] || '';
-      return to + content + to;
-    },
-  );
+  // lists, nested by repeating the marker, e.g. `#*` for a bullet in a numbered list
+  input = input.replace(/^[ \t]*([*#]+|-)[ \t]+/gm, function (_, markers: string) {
+    const indent = markers
+      .slice(0, -1)
+      .split('')
+      .map((marker) => (marker === '#' ? '   ' : '  '))
+      .join('');
+    return indent + (markers[markers.length - 1] === '#' ? '1. ' : '- ');
+  });
 
-  input = input.replace(/~~(.*?)~~/g, '-$1-');
+  input = input.replace(/^h([1-6])\.\s*(.*)$/gm, function (_, level, content) {
+    return Array(parseInt(level, 10) + 1).join('#') + ' ' + content;
+  });
 
-  input = input.replace(/`([^`]+)`/g, '{{$1}}');
+  input = input.replace(/(^|[^\w*])\*(\S(?:.*?\S)?)\*(?![\w*])/gm, '$1**$2**');
+  input = input.replace(/(^|[^\w_])_(\S(?:.*?\S)?)_(?![\w_])/gm, '$1*$2*');
+  input = input.replace(/(^|\s)-([^\s-](?:.*?[^\s-])?)-(?=\s|$)/gm, '$1~~$2~~');
+  input = input.replace(/(^|\s)\+(\S(?:.*?\S)?)\+(?=\s|$)/gm, '$1<ins>$2</ins>');
 
-  input = input.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '[$1|$2]');
-  input = input.replace(/<([^>]+)>/g, '[$1]');
+  input = input.replace(/^bq\.\s+/gm, '> ');
+  input = input.replace(/\{color(?::[^}]+)?\}/g, '');
+
+  // Convert tables by splitting input on lines
+  const lines = input.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].match(/^\s*\|\|(.*?)\|\|?\s*$/);
+    const row = !header && lines[i].match(/^\s*\|(.*?)\|?\s*$/);
+    if (!header && !row) {
+      continue;
+    }
+    const cells = header ? header[1].split('||') : (row as RegExpMatchArray)[1].split('|');
+    const separator = '|' + cells.map(() => '---').join('|') + '|';
+    if (header) {
+      lines[i] = '|' + cells.join('|') + '|';
+      lines.splice(++i, 0, separator);
+    } else if (i === 0 || !lines[i - 1].startsWith('|')) {
+      // Markdown tables need a header row
+      lines.splice(i, 0, '|' + cells.map(() => ' ').join('|') + '|', separator);
+      i += 2;
+    }
+  }
+  input = lines.join('\n');
 
   // restore extracted sections
   for (let i = 0; i < replacementsList.length; i++) {
     const sub = replacementsList[i];
-    input = input.replace(sub['key'], sub['value']);
+    input = input.replace(sub['key'], () => sub['value']);
   }
 
-  // Convert header rows of tables by splitting input on lines
-  const lines = input.split(/\r?\n/gm);
-  for (var i = 0; i < lines.length; i++) {
-    const line_content = lines[i];
-
-    if (line_content.match(/\|---/g) != null) {
-      lines[i - 1] = lines[i - 1].replace(/\|/g, '||');
-      lines.splice(i, 1);
-    }
-  }
-
-  // Join the split lines back
-  input = '';
-  for (var i = 0; i < lines.length; i++) {
-    input += lines[i] + '\n';
-  }
+  // quotes and panels, after restoring so that their code blocks are quoted too
+  input = input.replace(
+    /\{(quote|panel)(?::([^}]*))?\}\n?([^]*?)\n?\{\1\}/g,
+    function (_, type, params, content) {
+      const title = type === 'panel' && params?.match(/(?:^|\|)title=([^|]*)/)?.[1];
+      return prefixLines((title ? '**' + title + '**\n\n' : '') + content, '> ');
+    },
+  );
   return input;
 }
@@ -0,0 +1,622 @@
+// Typed requests for the Jira REST API endpoints that the bot uses.
+// Responses are checked against the types below, so that a change in their shape
+// (e.g. Jira Cloud vs Server users) fails with a `SchemaError` rather than reading `undefined`.
+import { RequestInit } from 'node-fetch';
+import type { AdfDoc } from './adf';
+import { SchemaError } from './jiraClient';
+
+/**
+ * A Jira user. Jira Cloud identifies users by `accountId`, Jira Server by `name`.
+ */
+export type JiraUser = {
+  accountId?: string;
+  name?: string;
+  displayName?: string;
+  emailAddress?: string;
+};
+
+/**
+ * A rich text field: wiki markup (server) or an ADF document (cloud)
+ */
+export type JiraRichText = string | AdfDoc;
+
+export type JiraComment = {
+  id: string;
+  author: JiraUser;
+  body: JiraRichText;
+};
+
+/**
+ * A value of a field that is identified by name, e.g. an issue type, priority or component
+ */
+export type JiraNamed = { name: string };
+
+export type JiraIssueFields = {
+  summary?: string;
+  status?: JiraNamed;
+  assignee?: JiraUser | null;
+  comment?: { comments: JiraComment[] };
+  issuetype?: JiraNamed;
+  priority?: JiraNamed | null;
+  components?: JiraNamed[];
+  fixVersions?: JiraNamed[];
+  labels?: string[];
+  description?: JiraRichText | null;
+  parent?: { key: string };
+  // custom fields, only checked when configured (see `JiraCustomFields`)
+  [field: string]: unknown;
+};
+
+export type JiraIssue = {
+  id?: string;
+  key?: string;
+  fields: JiraIssueFields;
+};
+
+/**
+ * The ids of the custom fields configured for each use, e.g. `customfield_10014` for the epic link
+ */
+export type JiraCustomFields = {
+  reviewers?: string;
+  epic?: string;
+  sprint?: string;
+  acceptanceCriteria?: string;
+};
+
+/**
+ * The values of the configured custom fields of an issue
+ */
+export type JiraCustomValues = {
+  reviewers: JiraUser[];
+  /** the key of the epic, from an epic link field */
+  epic?: string;
+  /** the names of the sprints */
+  sprints: string[];
+  acceptanceCriteria?: JiraRichText;
+};
+
+export type JiraRemoteLink = {
+  id?: number;
+  self?: string;
+  object: { url: string; title?: string };
+};
+
+/**
+ * The metadata of a field on a transition screen
+ */
+export type JiraFieldMeta = {
+  name: string;
+  required: boolean;
+  allowedValues?: any[];
+};
+
+export type JiraTransition = {
+  id: string;
+  name: string;
+  to?: { name: string };
+  /** The fields on the transition screen, by field id */
+  fields?: { [field: string]: JiraFieldMeta };
+};
+
+export type JiraProject = {
+  id: string;
+  key: string;
+  name?: string;
+};
+
+export type JiraVersion = {
+  id: string;
+  name: string;
+  released?: boolean;
+  releaseDate?: string;
+};
+
+/**
+ * A system or custom field of the Jira instance
+ */
+export type JiraField = {
+  id: string;
+  name: string;
+  custom?: boolean;
+};
+
+/**
+ * A change to a field of an issue, in a webhook
+ */
+export type JiraChangelogItem = {
+  field: string;
+  /** the field id, e.g. of a custom field. Only sent by Jira Cloud: Jira Server only names the field */
+  fieldId?: string;
+};
+
+/**
+ * A Jira webhook. Only the parts used to find the issue and the changed fields are checked,
+ * as the issue itself is read again from Jira.
+ */
+export type JiraWebhook = {
+  webhookEvent: string;
+  issue?: { key: string; self: string };
+  changelog?: { items: JiraChangelogItem[] };
+};
+
+/**
+ * The parts of the Jira API helper needed to make typed requests
+ */
+export type JiraApi = {
+  fetch: (route: string, options?: RequestInit) => Promise<any>;
+  cloud: boolean;
+};
+
+/**
+ * The request being checked, for error messages, and the deployment that determines the user shape
+ */
+type Check = { route: string; cloud: boolean };
+
+type Json = { [key: string]: unknown };
+
+const typeOf = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return `${value}`;
+  }
+  const type = Array.isArray(value) ? 'array' : typeof value;
+  return `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`;
+};
+
+const fail = (check: Check, path: string, expected: string, value: unknown): never => {
+  throw new SchemaError(check.route, path, `should be ${expected}, got ${typeOf(value)}`);
+};
+
+const object = (check: Check, path: string, value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Json)
+    : fail(check, path, 'an object', value);
+
+const array = (check: Check, path: string, value: unknown) =>
+  Array.isArray(value) ? value : fail(check, path, 'an array', value);
+
+const string = (check: Check, path: string, value: unknown) =>
+  typeof value === 'string' ? value : fail(check, path, 'a string', value);
+
+const boolean = (check: Check, path: string, value: unknown) =>
+  typeof value === 'boolean' ? value : fail(check, path, 'a boolean', value);
+
+/**
+ * Check a value that may be missing, or `null`
+ */
+const optional = <T>(value: unknown, parse: (value: unknown) => T) =>
+  value === undefined || value === null ? undefined : parse(value);
+
+/**
+ * Check that a value is a Jira user of the deployment, identified by `accountId` (cloud) or `name` (server)
+ */
+const parseUser = (check: Check, path: string, value: unknown): JiraUser => {
+  const user = object(check, path, value);
+  const [key, other] = check.cloud ? ['accountId', 'name'] : ['name', 'accountId'];
+  if (typeof user[key] !== 'string') {
+    throw new SchemaError(
+      check.route,
+      path,
+      `should be a Jira ${check.cloud ? 'Cloud' : 'Server'} user, with \`${key}\`${
+        typeof user[other] === 'string'
+          ? `, got a Jira ${check.cloud ? 'Server' : 'Cloud'} user`
+          : ''
+      }`,
+    );
+  }
+  optional(user.displayName, (v) => string(check, `${path}.displayName`, v));
+  optional(user.emailAddress, (v) => string(check, `${path}.emailAddress`, v));
+  return user as JiraUser;
+};
+
+const parseNamed = (check: Check, path: string, value: unknown): JiraNamed => {
+  const named = object(check, path, value);
+  string(check, `${path}.name`, named.name);
+  return named as JiraNamed;
+};
+
+const parseNamedList = (check: Check, path: string, value: unknown) =>
+  array(check, path, value).map((v, i) => parseNamed(check, `${path}[${i}]`, v));
+
+const parseRichText = (check: Check, path: string, value: unknown): JiraRichText =>
+  typeof value === 'string' || (value as any)?.type === 'doc'
+    ? (value as JiraRichText)
+    : fail(check, path, 'wiki markup or an ADF document', value);
+
+const parseComment = (check: Check, path: string, value: unknown): JiraComment => {
+  const comment = object(check, path, value);
+  return {
+    ...comment,
+    id: string(check, `${path}.id`, comment.id),
+    author: parseUser(check, `${path}.author`, comment.author),
+    body: parseRichText(check, `${path}.body`, comment.body),
+  };
+};
+
+/**
+ * Check a sprint field value. Jira Server returns each sprint as a serialized string,
+ * e.g. `com.atlassian.greenhopper.service.sprint.Sprint@1[id=1,name=Sprint 1,...]`
+ */
+const parseSprint = (check: Check, path: string, value: unknown): string =>
+  typeof value === 'string'
+    ? value.match(/name=([^,\]]+)/)?.[1] || value
+    : string(check, `${path}.name`, object(check, path, value).name);
+
+/**
+ * Check the values of the configured custom fields
+ */
+const parseCustomFields = (
+  check: Check,
+  fields: Json,
+  { reviewers, epic, sprint, acceptanceCriteria }: JiraCustomFields,
+): JiraCustomValues => {
+  const field = <T>(id: string | undefined, parse: (path: string, value: unknown) => T) =>
+    id ? optional(fields[id], (v) => parse(`fields.${id}`, v)) : undefined;
+  return {
+    reviewers:
+      field(reviewers, (path, v) =>
+        Array.isArray(v)
+          ? v.map((u, i) => parseUser(check, `${path}[${i}]`, u))
+          : [parseUser(check, path, v)],
+      ) || [],
+    epic: field(epic, (path, v) => string(check, path, v)),
+    sprints:
+      field(sprint, (path, v) =>
+        Array.isArray(v)
+          ? v.map((s, i) => parseSprint(check, `${path}[${i}]`, s))
+          : [parseSprint(check, path, v)],
+      ) || [],
+    acceptanceCriteria: field(acceptanceCriteria, (path, v) => parseRichText(check, path, v)),
+  };
+};
+
+/**
+ * Check an issue, including the configured custom fields
+ */
+const parseIssue = (check: Check, value: unknown, customFields: JiraCustomFields): JiraIssue => {
+  const issue = object(check, 'issue', value);
+  const fields = optional(issue.fields, (v) => object(check, 'fields', v)) || {};
+  const status = optional(fields.status, (v) => object(check, 'fields.status', v));
+  if (status) {
+    string(check, 'fields.status.name', status.name);
+  }
+  optional(fields.summary, (v) => string(check, 'fields.summary', v));
+  optional(fields.assignee, (v) => parseUser(check, 'fields.assignee', v));
+  optional(fields.issuetype, (v) => parseNamed(check, 'fields.issuetype', v));
+  optional(fields.priority, (v) => parseNamed(check, 'fields.priority', v));
+  optional(fields.components, (v) => parseNamedList(check, 'fields.components', v));
+  optional(fields.fixVersions, (v) => parseNamedList(check, 'fields.fixVersions', v));
+  optional(fields.labels, (v) =>
+    array(check, 'fields.labels', v).forEach((l, i) => string(check, `fields.labels[${i}]`, l)),
+  );
+  optional(fields.description, (v) => parseRichText(check, 'fields.description', v));
+  const parent = optional(fields.parent, (v) => object(check, 'fields.parent', v));
+  if (parent) {
+    string(check, 'fields.parent.key', parent.key);
+  }
+  parseCustomFields(check, fields, customFields);
+  const comment = optional(fields.comment, (v) => object(check, 'fields.comment', v));
+  return {
+    ...issue,
+    id: optional(issue.id, (v) => string(check, 'id', v)),
+    key: optional(issue.key, (v) => string(check, 'key', v)),
+    fields: {
+      ...fields,
+      ...(comment
+        ? {
+            comment: {
+              ...comment,
+              comments: array(check, 'fields.comment.comments', comment.comments).map((c, i) =>
+                parseComment(check, `fields.comment.comments[${i}]`, c),
+              ),
+            },
+          }
+        : {}),
+    },
+  };
+};
+
+/**
+ * Check a list of remote links
+ * @param route the request route, for error messages
+ * @param value the response
+ */
+export const parseRemoteLinks = (route: string, value: unknown): JiraRemoteLink[] => {
+  const check = { route, cloud: false };
+  return array(check, 'links', value).map((l, i) => {
+    const link = object(check, `links[${i}]`, l);
+    const linked = object(check, `links[${i}].object`, link.object);
+    string(check, `links[${i}].object.url`, linked.url);
+    optional(link.self, (v) => string(check, `links[${i}].self`, v));
+    optional(linked.title, (v) => string(check, `links[${i}].object.title`, v));
+    return link as JiraRemoteLink;
+  });
+};
+
+const parseProject = (check: Check, path: string, value: unknown): JiraProject => {
+  const project = object(check, path, value);
+  string(check, `${path}.id`, project.id);
+  string(check, `${path}.key`, project.key);
+  optional(project.name, (v) => string(check, `${path}.name`, v));
+  return project as JiraProject;
+};
+
+const parseVersion = (check: Check, path: string, value: unknown): JiraVersion => {
+  const version = object(check, path, value);
+  string(check, `${path}.id`, version.id);
+  string(check, `${path}.name`, version.name);
+  optional(version.released, (v) => boolean(check, `${path}.released`, v));
+  optional(version.releaseDate, (v) => string(check, `${path}.releaseDate`, v));
+  return version as JiraVersion;
+};
+
+/**
+ * Check a Jira webhook payload
+ * @param value the payload
+ */
+export const parseWebhook = (value: unknown): JiraWebhook => {
+  const check = { route: 'webhook', cloud: false };
+  const webhook = object(check, 'webhook', value);
+  string(check, 'webhookEvent', webhook.webhookEvent);
+  const issue = optional(webhook.issue, (v) => object(check, 'issue', v));
+  if (issue) {
+    string(check, 'issue.key', issue.key);
+    string(check, 'issue.self', issue.self);
+  }
+  const changelog = optional(webhook.changelog, (v) => object(check, 'changelog', v));
+  if (changelog) {
+    array(check, 'changelog.items', changelog.items).forEach((item, i) => {
+      const { field, fieldId } = object(check, `changelog.items[${i}]`, item);
+      string(check, `changelog.items[${i}].field`, field);
+      optional(fieldId, (v) => string(check, `changelog.items[${i}].fieldId`, v));
+    });
+  }
+  return webhook as JiraWebhook;
+};
+
+const parseTransition = (check: Check, path: string, value: unknown): JiraTransition => {
+  const transition = object(check, path, value);
+  string(check, `${path}.id`, transition.id);
+  string(check, `${path}.name`, transition.name);
+  const to = optional(transition.to, (v) => object(check, `${path}.to`, v));
+  if (to) {
+    string(check, `${path}.to.name`, to.name);
+  }
+  const fields = optional(transition.fields, (v) => object(check, `${path}.fields`, v)) || {};
+  for (const [id, f] of Object.entries(fields)) {
+    const meta = object(check, `${path}.fields.${id}`, f);
+    string(check, `${path}.fields.${id}.name`, meta.name);
+    boolean(check, `${path}.fields.${id}.required`, meta.required);
+    optional(meta.allowedValues, (v) => array(check, `${path}.fields.${id}.allowedValues`, v));
+  }
+  return transition as JiraTransition;
+};
+
+/**
+ * Get a Jira issue
+ * @param api the Jira API helper
+ * @param key the Jira issue key string
+ * @param options the fields to get (all by default), and the configured custom fields to check
+ * @returns a Promise for the issue. Rejects with a `NotFoundError` if it doesn't exist.
+ */
+export const getIssue = async (
+  api: JiraApi,
+  key: string,
+  { fields, customFields = {} }: { fields?: string[]; customFields?: JiraCustomFields } = {},
+) => {
+  const route = `issue/${key}${fields ? `?fields=${fields.join(',')}` : ''}`;
+  return parseIssue({ route, cloud: api.cloud }, await api.fetch(route), customFields);
+};
+
+/**
+ * Get the values of the configured custom fields of an issue
+ * @param api the Jira API helper
+ * @param issue the issue, as returned by `getIssue`
+ * @param customFields the configured custom fields
+ */
+export const getCustomValues = (api: JiraApi, issue: JiraIssue, customFields: JiraCustomFields) =>
+  parseCustomFields({ route: `issue/${issue.key}`, cloud: api.cloud }, issue.fields, customFields);
+
+/**
+ * Add a comment to a Jira issue, or update an existing comment
+ * @param api the Jira API helper
+ * @param key the Jira issue key string
+ * @param body the comment
+ * @param id the id of the comment to update
+ */
+export const saveComment = async (api: JiraApi, key: string, body: JiraRichText, id?: string) => {
+  await api.fetch(id ? `issue/${key}/comment/${id}` : `issue/${key}/comment`, {
+    method: id ? 'PUT' : 'POST',
+    body: JSON.stringify({ body }),
+  });
+};
+
+/**
+ * Get the remote links of a Jira issue
+ * @param api the Jira API helper
+ * @param key the Jira issue key string
+ */
+export const getRemoteLinks = async (api: JiraApi, key: string) => {
+  const route = `issue/${key}/remotelink`;
+  return parseRemoteLinks(route, await api.fetch(route));
+};
+
+/**
+ * Add a remote link to a Jira issue
+ * @param api the Jira API helper
+ * @param key the Jira issue key string
+ * @param link the linked object
+ */
+export const addRemoteLink = async (api: JiraApi, key: string, link: JiraRemoteLink['object']) => {
+  await api.fetch(`issue/${key}/remotelink`, {
+    method: 'POST',
+    body: JSON.stringify({ object: link }),
+  });
+};
+
+/**
+ * Get the transitions available for a Jira issue, with the fields on their transition screens
+ * @param api the Jira API helper
+ * @param key the Jira issue key string
+ */
+export const getTransitions = async (api: JiraApi, key: string) => {
+  const route = `issue/${key}/transitions?expand=transitions.fields`;
+  const check = { route, cloud: api.cloud };
+  const { transitions = [] } = object(check, 'response', (await api.fetch(route)) || {});
+  return array(check, 'transitions', transitions).map((t, i) =>
+    parseTransition(check, `transitions[${i}]`, t),
+  );
+};
+
+/**
+ * Transition a Jira issue
+ * @param api the Jira API helper
+ * @param key the Jira issue key string
+ * @param id the transition id
+ * @param fields the fields to set on the transition screen
+ */
+export const doTransition = async (api: JiraApi, key: string, id: string, fields?: object) => {
+  await api.fetch(`issue/${key}/transitions`, {
+    method: 'POST',
+    body: JSON.stringify({ transition: { id }, ...(fields ? { fields } : {}) }),
+  });
+};
+
+/**
+ * Get a Jira user by exact match
+ * @param api the Jira API helper
+ * @param key the accountId (cloud) or username (server)
+ * @returns a Promise for the user. Rejects with a `NotFoundError` if there is no match.
+ */
+export const getUser = async (api: JiraApi, key: string) => {
+  const target = encodeURIComponent(key);
+  const route = api.cloud ? `user?accountId=${target}` : `user?username=${target}`;
+  return parseUser({ route, cloud: api.cloud }, 'user', await api.fetch(route));
+};
+
+/**
+ * Search for Jira users, e.g. by email
+ * @param api the Jira API helper
+ * @param query the search text
+ */
+export const searchUsers = async (api: JiraApi, query: string) => {
+  const target = encodeURIComponent(query);
+  const route = api.cloud
+    ? `user/search?query=${target}`
+    : `user/search?query=${target}&username=${target}`;
+  const check = { route, cloud: api.cloud };
+  return array(check, 'users', await api.fetch(route)).map((u, i) =>
+    parseUser(check, `users[${i}]`, u),
+  );
+};
+
+/**
+ * Get the members of a Jira group
+ * @param api the Jira API helper
+ * @param group the group name
+ * @returns a Promise for the users, across all pages. Rejects with a `NotFoundError` if there is no such group.
+ */
+export const getGroupMembers = async (api: JiraApi, group: string) => {
+  const members: JiraUser[] = [];
+  for (let isLast = false; !isLast; ) {
+    const route = `group/member?groupname=${encodeURIComponent(group)}&startAt=${members.length}`;
+    const check = { route, cloud: api.cloud };
+    const page = object(check, 'response', await api.fetch(route));
+    const values = array(check, 'values', page.values);
+    members.push(...values.map((u, i) => parseUser(check, `values[${i}]`, u)));
+    isLast = page.isLast !== false || !values.length;
+  }
+  return members;
+};
+
+/**
+ * Get the Jira user that the requests are authenticated as
+ * @param api the Jira API helper
+ */
+export const getMyself = async (api: JiraApi) =>
+  parseUser({ route: 'myself', cloud: api.cloud }, 'user', await api.fetch('myself'));
+
+/**
+ * Get the Jira projects visible to the bot
+ * @param api the Jira API helper
+ */
+export const getProjects = async (api: JiraApi) => {
+  const check = { route: 'project', cloud: api.cloud };
+  return array(check, 'projects', await api.fetch('project')).map((p, i) =>
+    parseProject(check, `projects[${i}]`, p),
+  );
+};
+
+/**
+ * Get a Jira project
+ * @param api the Jira API helper
+ * @param key the Jira project key
+ * @returns a Promise for the project. Rejects with a `NotFoundError` if it doesn't exist.
+ */
+export const getProject = async (api: JiraApi, key: string) => {
+  const route = `project/${key}`;
+  return parseProject({ route, cloud: api.cloud }, 'project', await api.fetch(route));
+};
+
+/**
+ * Get the versions of a Jira project
+ * @param api the Jira API helper
+ * @param key the Jira project key
+ */
+export const getVersions = async (api: JiraApi, key: string) => {
+  const route = `project/${key}/versions`;
+  const check = { route, cloud: api.cloud };
+  return array(check, 'versions', await api.fetch(route)).map((v, i) =>
+    parseVersion(check, `versions[${i}]`, v),
+  );
+};
+
+/**
+ * Create a version in a Jira project
+ * @param api the Jira API helper
+ * @param projectId the Jira project id
+ * @param name the version name
+ * @returns a Promise for the new version
+ */
+export const createVersion = async (api: JiraApi, projectId: string, name: string) =>
+  parseVersion(
+    { route: 'version', cloud: api.cloud },
+    'version',
+    await api.fetch('version', {
+      method: 'POST',
+      body: JSON.stringify({ name, projectId: Number(projectId) }),
+    }),
+  );
+
+/**
+ * Mark a Jira version released
+ * @param api the Jira API helper
+ * @param id the version id
+ * @param releaseDate the release date, as `YYYY-MM-DD`
+ * @returns a Promise for the updated version
+ */
+export const releaseVersion = async (api: JiraApi, id: string, releaseDate: string) => {
+  const route = `version/${id}`;
+  return parseVersion(
+    { route, cloud: api.cloud },
+    'version',
+    await api.fetch(route, {
+      method: 'PUT',
+      body: JSON.stringify({ released: true, releaseDate }),
+    }),
+  );
+};
+
+/**
+ * Get the system and custom fields of the Jira instance
+ * @param api the Jira API helper
+ */
+export const getFields = async (api: JiraApi) => {
+  const check = { route: 'field', cloud: api.cloud };
+  return array(check, 'fields', await api.fetch('field')).map((f, i) => {
+    const field = object(check, `fields[${i}]`, f);
+    string(check, `fields[${i}].id`, field.id);
+    string(check, `fields[${i}].name`, field.name);
+    optional(field.custom, (v) => boolean(check, `fields[${i}].custom`, v));
+    return field as JiraField;
+  });
+};
@@ -0,0 +1,205 @@
+import fetch, { RequestInit, Response } from 'node-fetch';
+
+/**
+ * An error response from the Jira API, with the messages from its JSON body
+ */
+export class JiraError extends Error {
+  constructor(
+    readonly status: number,
+    readonly errorMessages: string[] = [],
+    readonly errors: { [field: string]: string } = {},
+    message?: string,
+  ) {
+    super(
+      message ||
+        `${status}: ${[...errorMessages, ...Object.values(errors)].join('; ') || 'Jira error'}`,
+    );
+    this.name = new.target.name;
+  }
+}
+
+/** 404, e.g. the issue key doesn't exist, or isn't visible to the bot */
+export class NotFoundError extends JiraError {}
+
+/** 401, the bot's credentials were rejected */
+export class UnauthorizedError extends JiraError {}
+
+/** 403, the bot's Jira user lacks a permission */
+export class ForbiddenError extends JiraError {}
+
+/** 400, the request was rejected, e.g. a field can't be set on the issue */
+export class ValidationError extends JiraError {}
+
+/** 429 or 5xx after retrying, or a network failure: Jira is down or overloaded */
+export class UnavailableError extends JiraError {}
+
+/**
+ * A Jira response without the shape the bot expects, e.g. a Jira Server user from Jira Cloud
+ */
+export class SchemaError extends Error {
+  constructor(readonly route: string, readonly path: string, readonly problem: string) {
+    super(`Unexpected Jira response from ${route}: \`${path}\` ${problem}`);
+    this.name = new.target.name;
+  }
+}
+
+// the error classes for the statuses that callers handle differently
+const errorClasses: { [status: number]: typeof JiraError } = {
+  400: ValidationError,
+  401: UnauthorizedError,
+  403: ForbiddenError,
+  404: NotFoundError,
+};
+
+export type RetryOptions = {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry, doubled for each retry, in ms */
+  minDelay: number;
+  /** Maximum delay between attempts, including `Retry-After`, in ms */
+  maxDelay: number;
+};
+
+export const defaultRetryOptions: RetryOptions = {
+  retries: 3,
+  minDelay: 1000,
+  maxDelay: 60000,
+};
+
+// network errors worth retrying, as opposed to e.g. an invalid host
+const retryableCodes = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+// network errors from before the request was sent, so safe to retry for any method
+const unsentCodes = ['ECONNREFUSED', 'EAI_AGAIN'];
+// the methods that Jira can safely repeat, e.g. not a POST that creates an issue or worklog
+const idempotentMethods = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Get the delay before retrying a request, honouring the `Retry-After` header if present
+ * @param attempt the number of attempts made so far, from 1
+ * @param retryAfter the `Retry-After` header, in seconds or as an HTTP date
+ * @param options the retry options
+ * @returns the delay in ms
+ */
+export const getRetryDelay = (
+  attempt: number,
+  retryAfter: string | null | undefined,
+  { minDelay, maxDelay }: RetryOptions,
+) => {
+  let delay = minDelay * 2 ** (attempt - 1);
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      delay = seconds * 1000;
+    } else if (!Number.isNaN(date)) {
+      delay = date - Date.now();
+    }
+  }
+  return Math.min(Math.max(delay, 0), maxDelay);
+};
+
+/**
+ * Create the typed error for a failed Jira API response
+ * @param r the response
+ * @returns a Promise for the error
+ */
+const toJiraError = async (r: Response) => {
+  const text = await r.text();
+  let body: any = {};
+  try {
+    body = JSON.parse(text);
+  } catch (err) {
+    // not JSON, e.g. an HTML error page from a proxy
+  }
+  const errorMessages: string[] = Array.isArray(body?.errorMessages) ? body.errorMessages : [];
+  const errors = body?.errors && typeof body.errors === 'object' ? body.errors : {};
+  const message =
+    errorMessages.length || Object.keys(errors).length ? undefined : `${r.status}: ${text}`;
+  const ErrorClass =
+    errorClasses[r.status] || (r.status === 429 || r.status >= 500 ? UnavailableError : JiraError);
+  return new ErrorClass(r.status, errorMessages, errors, message);
+};
+
+/**
+ * Check whether a failed response is worth retrying.
+ * Idempotent requests are retried for 429 and 5xx. Other requests may already have taken effect,
+ * so are only retried when Jira asks for it, with a 429 or 503 and a `Retry-After` header.
+ * @param r the failed response
+ * @param idempotent whether the request method is idempotent
+ */
+const isRetryable = (r: Response, idempotent: boolean) =>
+  idempotent
+    ? r.status === 429 || r.status >= 500
+    : (r.status === 429 || r.status === 503) && r.headers.has('retry-after');
+
+/**
+ * Make a request to the Jira API, retrying with backoff when Jira is rate limiting or unavailable.
+ * Non-idempotent requests, e.g. POST, are only retried when they can't have taken effect.
+ * @param url the complete request URL
+ * @param options Pass-through options to `fetch`
+ * @param retryOptions how often, and how long, to retry
+ * @returns a Promise for the parsed JSON response, or `null` if no content was returned.
+ * Rejects with a `JiraError` subclass for error responses.
+ */
+export const jiraFetch = async (
+  url: string,
+  options?: RequestInit,
+  retryOptions: RetryOptions = defaultRetryOptions,
+): Promise<any> => {
+  const idempotent = idempotentMethods.includes((options?.method || 'GET').toUpperCase());
+  for (let attempt = 1; ; attempt++) {
+    let r: Response;
+    try {
+      r = await fetch(url, options);
+    } catch (err) {
+      if (!(idempotent ? retryableCodes : unsentCodes).includes(err.code)) {
+        throw err;
+      }
+      if (attempt > retryOptions.retries) {
+        throw new UnavailableError(0, [], {}, `Jira is unreachable: ${err.message}`);
+      }
+      await sleep(getRetryDelay(attempt, null, retryOptions));
+      continue;
+    }
+    if (r.ok) {
+      return r.status !== 204 ? r.json() : null;
+    }
+    if (isRetryable(r, idempotent) && attempt <= retryOptions.retries) {
+      await sleep(getRetryDelay(attempt, r.headers.get('retry-after'), retryOptions));
+      continue;
+    }
+    throw await toJiraError(r);
+  }
+};
+
+/**
+ * Describe a failed Jira request for a PR comment, e.g. to tell a bad key apart from Jira being down
+ * @param err the error thrown by `jiraFetch`
+ */
+export const describeJiraError = (err: Error) => {
+  if (err instanceof NotFoundError) {
+    return 'not found in Jira';
+  }
+  if (err instanceof UnauthorizedError) {
+    return "Jira rejected the bot's credentials";
+  }
+  if (err instanceof ForbiddenError) {
+    return "the bot's Jira user does not have permission";
+  }
+  if (err instanceof ValidationError) {
+    const messages = [
+      ...err.errorMessages,
+      ...Object.entries(err.errors).map(([field, message]) => `${field}: ${message}`),
+    ];
+    return `Jira rejected the request: ${messages.join('; ') || err.message}`;
+  }
+  if (err instanceof UnavailableError) {
+    return 'Jira is unavailable';
+  }
+  if (err instanceof SchemaError) {
+    return 'Jira returned an unexpected response';
+  }
+  return err.message;
+};
@@ -0,0 +1,295 @@
+import { Context, Probot, ApplicationFunctionOptions } from 'probot';
+import express from 'express';
+import { URL } from 'url';
+import crypto from 'crypto';
+import _ from 'lodash';
+import { getJira, writeComment } from './probotHelpers';
+import type { Jira } from './probotHelpers';
+import { resolveWebhookCredentials, getAuthorization } from './credentials';
+import type { ResolvedCredentials } from './credentials';
+import { jiraFetch } from './jiraClient';
+import { parseRemoteLinks, parseWebhook } from './jiraApi';
+import type { JiraChangelogItem, JiraUser, JiraWebhook } from './jiraApi';
+import { getTeamReviewers } from './teams';
+import { refreshCheck } from './checks';
+
+/**
+ * Matches the GitHub PR remote links created by the bot, e.g. `https://github.com/owner/repo/pull/4`
+ */
+const prUrlRegex = /^https?:\/\/[^/]+\/([^/]+)\/([^/]+)\/pull\/(\d+)$/;
+
+/**
+ * Find the GitHub PRs linked to a Jira issue, using the issue's remote links
+ * @param issueUrl the `self` url of the Jira issue, as sent in the webhook
+ * @param resolved the credentials of its Jira host, as returned by `resolveWebhookCredentials`
+ * @returns a Promise for the list of linked PRs
+ */
+const getLinkedPrs = async (issueUrl: URL, { credentials, source }: ResolvedCredentials) => {
+  const route = `${issueUrl.href}/remotelink`;
+  const links = parseRemoteLinks(
+    route,
+    await jiraFetch(route, {
+      headers: {
+        Authorization: await getAuthorization(credentials, source),
+        Accept: 'application/json',
+      },
+    }),
+  );
+  return links
+    .filter((link) => link.object.title?.startsWith('GitHub PR'))
+    .map((link) => link.object.url.match(prUrlRegex))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(([, owner, repo, number]) => ({ owner, repo, pull_number: Number(number) }));
+};
+
+/**
+ * Create a Probot Context for a PR, so that the usual helpers can be used outside of a GitHub event
+ * @param app the Probot app
+ * @param pr the owner, repo and number of the PR
+ * @returns a Promise for the Context
+ */
+const getPrContext = async (
+  app: Probot,
+  pr: { owner: string; repo: string; pull_number: number },
+) => {
+  const appOctokit = await app.auth();
+  const {
+    data: { id: installationId },
+  } = await appOctokit.apps.getRepoInstallation({ owner: pr.owner, repo: pr.repo });
+  const octokit = await app.auth(installationId);
+  const { data: pullRequest } = await octokit.pulls.get(pr);
+  return new Context(
+    {
+      id: `jira-${pr.owner}-${pr.repo}-${pr.pull_number}`,
+      name: 'pull_request',
+      payload: {
+        action: 'jira_updated',
+        pull_request: pullRequest,
+        repository: pullRequest.base.repo,
+        installation: { id: installationId },
+      } as any,
+    },
+    octokit,
+    app.log,
+  );
+};
+
+/**
+ * Find the GitHub logins that have a Jira user, as only these are synced from Jira
+ */
+const filterJiraUsers = async (context: Context, jira: Jira, logins: string[]) => {
+  const keys = await Promise.all(logins.map((login) => jira.toJiraUserKey(context, login)));
+  return logins.filter((_login, i) => !!keys[i]);
+};
+
+/**
+ * Update the PR assignees to match the Jira issue. Only users with a Jira user are changed.
+ */
+const syncAssignee = async (
+  context: Context,
+  jira: Jira,
+  assignee: JiraUser | null | undefined,
+) => {
+  const pr = (context.payload as any).pull_request;
+  const prAssignees: string[] = (pr.assignees || []).map((a: any) => a.login);
+  const ghUser = await jira.toGitHubUser(context, assignee);
+  const toRemove = (await filterJiraUsers(context, jira, prAssignees)).filter(
+    (login) => login !== ghUser,
+  );
+  if (toRemove.length) {
+    await context.octokit.issues.removeAssignees(context.issue({ assignees: toRemove }));
+  }
+  if (ghUser && !prAssignees.includes(ghUser)) {
+    await context.octokit.issues.addAssignees(context.issue({ assignees: [ghUser] }));
+  }
+};
+
+/**
+ * Update the PR requested reviewers to match the Jira issue. Only users with a Jira user are changed,
+ * and reviewers covered by a requested team are not requested individually.
+ */
+const syncReviewers = async (context: Context, jira: Jira, jiraReviewers: JiraUser[]) => {
+  const pr = (context.payload as any).pull_request;
+  const requested: string[] = (pr.requested_reviewers || []).map((r: any) => r.login);
+  const teams = await getTeamReviewers(context, jira, pr.requested_teams);
+  const ghReviewers = await Promise.all(jiraReviewers.map((r) => jira.toGitHubUser(context, r)));
+  const toRemove = (await filterJiraUsers(context, jira, requested)).filter(
+    (login) => !ghReviewers.includes(login),
+  );
+  const toAdd = _.difference(
+    ghReviewers.filter(
+      (u, i): u is string =>
+        !!u &&
+        u !== pr.user?.login &&
+        !teams.jiraKeys.includes(jira.userKey(jiraReviewers[i]) || ''),
+    ),
+    requested,
+    teams.logins,
+  );
+  if (toRemove.length) {
+    await context.octokit.pulls.removeRequestedReviewers(
+      context.pullRequest({ reviewers: toRemove }),
+    );
+  }
+  if (toAdd.length) {
+    await context.octokit.pulls.requestReviewers(context.pullRequest({ reviewers: toAdd }));
+  }
+};
+
+/**
+ * Check whether a changelog item is for the configured reviewers field.
+ * Jira Cloud sends the field id, but Jira Server only sends the field name.
+ */
+const isReviewersItem = async (jira: Jira, item: JiraChangelogItem) => {
+  const { reviewers } = jira.fields;
+  if (!reviewers) {
+    return false;
+  }
+  if (item.fieldId) {
+    return item.fieldId === reviewers;
+  }
+  return item.field === reviewers || item.field === (await jira.getFieldName(reviewers));
+};
+
+/**
+ * Parse the `self` url of the issue in a webhook, which must be an http(s) url
+ */
+const parseIssueUrl = (self: unknown) => {
+  try {
+    const url = new URL(`${self}`);
+    return ['https:', 'http:'].includes(url.protocol) ? url : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+/**
+ * Handle a Jira webhook, syncing changes to the linked issue back to its GitHub PRs.
+ * The payload is only used to find the issue: its fields are read again from Jira.
+ * @param app the Probot app
+ * @param payload the Jira webhook payload
+ */
+export const handleJiraWebhook = async (app: Probot, payload: unknown) => {
+  let webhook: JiraWebhook;
+  try {
+    webhook = parseWebhook(payload);
+  } catch (err) {
+    app.log.warn(`Ignoring invalid Jira webhook: ${err.message}`);
+    return;
+  }
+  const { webhookEvent, issue, changelog } = webhook;
+  const items = changelog?.items || [];
+  const issueUrl = parseIssueUrl(issue?.self);
+  if (webhookEvent !== 'jira:issue_updated' || !issue?.key || !issueUrl || !items.length) {
+    return;
+  }
+  // check the host before sending it any credentials
+  const resolved = await resolveWebhookCredentials(issueUrl.host);
+  if (!resolved) {
+    app.log.warn(`Ignoring Jira webhook for ${issue.key} from unknown host ${issueUrl.host}`);
+    return;
+  }
+  app.log.debug(`Jira webhook for ${issue.key}: ${items.map((i) => i.field).join(', ')}`);
+
+  for (const pr of await getLinkedPrs(issueUrl, resolved)) {
+    let context: Context;
+    let jira: Jira | null;
+    let linked: string[];
+    try {
+      context = await getPrContext(app, pr);
+      jira = await getJira(context);
+      if (!jira || jira.host !== issueUrl.host) {
+        continue;
+      }
+      // the issue changed, so don't use its cached details
+      jira.forgetIssue(issue.key);
+      // ignore PRs that are no longer linked to the issue
+      linked = await jira.getCachedIssues(context);
+      if (!linked.includes(issue.key)) {
+        continue;
+      }
+    } catch (err) {
+      // e.g. the app was uninstalled from the repo, or the PR was deleted
+      app.log.error(
+        `Failed to get ${pr.owner}/${pr.repo}#${pr.pull_number} for the Jira webhook: ${err.message}`,
+      );
+      continue;
+    }
+    let issueDetail;
+    try {
+      issueDetail = await jira.getIssueDetail(context, issue.key);
+    } catch (err) {
+      context.log.error(`Failed to get ${issue.key} for the Jira webhook: ${err.message}`);
+      continue;
+    }
+    if (!issueDetail) {
+      continue;
+    }
+    const status = issueDetail.fields.status?.name;
+    for (const item of items) {
+      try {
+        if (item.field === 'assignee') {
+          await syncAssignee(context, jira, issueDetail.fields.assignee);
+        } else if (await isReviewersItem(jira, item)) {
+          await syncReviewers(context, jira, jira.getReviewers(issueDetail));
+        } else if (
+          item.field === 'status' &&
+          status &&
+          (jira.webhook?.commentOnStatus || []).some(
+            (s: string) => s.toLowerCase() === status.toLowerCase(),
+          )
+        ) {
+          await writeComment(
+            context,
+            `Jira ticket ${jira.issueLinkMd(issue.key)} has been moved to \`${status}\`.`,
+          );
+        }
+      } catch (err) {
+        context.log.error(`Failed to sync ${item.field} from ${issue.key}: ${err.message}`);
+      }
+    }
+    // e.g. the issue moved to a status that isn't allowed
+    await refreshCheck(context, jira, linked);
+  }
+};
+
+/**
+ * Compare the secret passed to the webhook, in constant time
+ */
+const isSecret = (value: unknown, secret: string) => {
+  const given = Buffer.from(typeof value === 'string' ? value : '');
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+/**
+ * Register the `/jira/webhook` route, to receive webhooks from Jira.
+ * `JIRA_WEBHOOK_SECRET` must be set, and passed as the `secret` query parameter.
+ * @param app the Probot app
+ * @param options the options passed to the app by Probot
+ */
+export const registerJiraWebhook = (app: Probot, { getRouter }: ApplicationFunctionOptions) => {
+  const secret = process.env.JIRA_WEBHOOK_SECRET;
+  if (!getRouter) {
+    return;
+  }
+  if (!secret) {
+    app.log.warn('JIRA_WEBHOOK_SECRET is not set, so the Jira webhook is disabled');
+    return;
+  }
+  const router = getRouter('/jira');
+  router.use(express.json({ limit: '5mb' }));
+  router.post('/webhook', async (req, res) => {
+    if (!isSecret(req.query.secret, secret)) {
+      res.sendStatus(401);
+      return;
+    }
+    try {
+      await handleJiraWebhook(app, req.body);
+      res.sendStatus(200);
+    } catch (err) {
+      app.log.error(`Failed to handle Jira webhook: ${err.message}`);
+      res.sendStatus(500);
+    }
+  });
+};
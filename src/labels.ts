@@ -0,0 +1,109 @@
+import { Context } from 'probot';
+import _ from 'lodash';
+import type { Jira } from './probotHelpers';
+import type { JiraIssue } from './jiraApi';
+import { writeComment } from './probotHelpers';
+
+/**
+ * The Jira values that a GitHub label maps to, in the `labelMap` config
+ */
+export type LabelMapping = {
+  label?: string;
+  component?: string;
+  priority?: string;
+};
+
+/**
+ * Describe the Jira values of a label mapping, for PR comments
+ */
+const describeMapping = ({ label, component, priority }: LabelMapping) =>
+  [
+    label && `label \`${label}\``,
+    component && `component \`${component}\``,
+    priority && `priority \`${priority}\``,
+  ]
+    .filter((d) => !!d)
+    .join(', ');
+
+/**
+ * When a PR is labeled or unlabeled, add or remove the mapped Jira label and component.
+ * The mapped priority is set when labeled, and left as is when unlabeled.
+ * @param context a Probot `pull_request.labeled` or `pull_request.unlabeled` event Context
+ * @param jira the Jira API helper
+ * @param issues the Jira issue keys linked to the PR
+ */
+export const syncLabel = async (context: Context, jira: Jira, issues: string[]) => {
+  const { action, label: ghLabel } = context.payload as any;
+  const mapping: LabelMapping | undefined = jira.labelMap?.[ghLabel?.name];
+  if (!mapping) {
+    return;
+  }
+  const op = action === 'labeled' ? 'add' : 'remove';
+  const { label, component, priority } = mapping;
+  const update = {
+    ...(label ? { labels: [{ [op]: label }] } : {}),
+    ...(component ? { components: [{ [op]: { name: component } }] } : {}),
+  };
+  const fields = priority && op === 'add' ? { priority: { name: priority } } : undefined;
+  if (_.isEmpty(update) && !fields) {
+    return;
+  }
+  for (const issue of issues) {
+    try {
+      await jira.fetch(`issue/${issue}`, {
+        method: 'PUT',
+        body: JSON.stringify({ update, ...(fields ? { fields } : {}) }),
+      });
+      await writeComment(
+        context,
+        `Jira ticket ${jira.issueLinkMd(issue)} has been updated: ${
+          op === 'add' ? 'set' : 'removed'
+        } ${describeMapping(op === 'add' ? mapping : { label, component })}`,
+      );
+    } catch (err) {
+      context.log.error(`Failed to sync label to Jira issue ${issue}: ${err.message}`);
+      await writeComment(
+        context,
+        `Warning: failed to update ${jira.issueLinkMd(issue)} for label \`${
+          ghLabel.name
+        }\`, please update manually.`,
+      );
+    }
+  }
+};
+
+/**
+ * Add the GitHub labels mapped from the Jira issue's labels, components and priority to the PR
+ * @param context a Probot `pull_request` event Context
+ * @param jira the Jira API helper
+ * @param issueDetail the issue, as returned by `getIssueDetail`
+ */
+export const mirrorJiraLabels = async (
+  context: Context,
+  jira: Jira,
+  issueDetail: JiraIssue | null,
+) => {
+  const fields = issueDetail?.fields || {};
+  const jiraLabels = fields.labels || [];
+  const components = (fields.components || []).map((c) => c.name);
+  const existing: string[] = ((context.payload as any).pull_request?.labels || []).map(
+    (l: any) => l.name,
+  );
+  const labels = Object.entries((jira.labelMap || {}) as { [label: string]: LabelMapping })
+    .filter(
+      ([, { label, component, priority }]) =>
+        (label && jiraLabels.includes(label)) ||
+        (component && components.includes(component)) ||
+        (priority && fields.priority?.name === priority),
+    )
+    .map(([ghLabel]) => ghLabel)
+    .filter((ghLabel) => !existing.includes(ghLabel));
+  if (!labels.length) {
+    return;
+  }
+  try {
+    await context.octokit.issues.addLabels(context.issue({ labels }));
+  } catch (err) {
+    context.log.error(`Failed to add labels to PR: ${err.message}`);
+  }
+};
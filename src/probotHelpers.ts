@@ -1,9 +1,118 @@
 import { Context } from 'probot';
-import fetch, { RequestInit } from 'node-fetch';
+import { RequestInit } from 'node-fetch';
 import fs from 'fs-extra';
+import _ from 'lodash';
+import type { WorkflowRule } from './workflow';
+import type { LabelMapping } from './labels';
+import type { TeamMapping, TeamReviewers } from './teams';
+import { adfToText, findMentions, markdownToAdf } from './adf';
+import { jiraToMarkdown, escapeMentions } from './j2m';
+import { resolveCredentials, getAuthorization, isOAuth2 } from './credentials';
+import { jiraFetch, describeJiraError, NotFoundError } from './jiraClient';
+import {
+  getIssue,
+  getCustomValues,
+  getRemoteLinks,
+  addRemoteLink,
+  getTransitions,
+  doTransition,
+  getUser,
+  searchUsers,
+  getMyself,
+  getProjects,
+  getFields,
+} from './jiraApi';
+import type { JiraIssue, JiraRichText, JiraUser } from './jiraApi';
+import { TtlCache, ttlFromEnv, serialize } from './cache';
+import { resolveJiraUser, resolveGitHubUser } from './users';
 const metadata = require('probot-metadata');
 
 const metaKey_jiraIssue = 'jira-issue';
+// the issues linked with `/jira link`, which are kept when the title or description changes
+const metaKey_commandIssues = 'jira-linked';
+const metaKey_comment = 'jira-comment';
+
+/**
+ * The state of the sticky status comment. Only its id is stored in the issue metadata,
+ * the rest is read back from the comment.
+ */
+type StickyComment = {
+  id?: number;
+  status: string[];
+  updates: string[];
+};
+
+/**
+ * Sticky comment settings for each event Context, registered by `getJira`,
+ * with the comment id once known and the status to write.
+ * Contexts without an entry use append-only comments.
+ */
+const stickyComments = new WeakMap<
+  Context,
+  { maxUpdates: number; id?: number; status?: string[] }
+>();
+
+/**
+ * Hidden marker that identifies the sticky status comment
+ */
+const stickyMarker = '<!-- jira-workflow-gitbot -->';
+
+/**
+ * Hidden marker before each of the latest updates in the sticky status comment
+ */
+const updateMarker = '<!-- jira-update -->';
+
+/**
+ * Matches the Jira issue summary section that the bot keeps in a PR description
+ */
+const summaryRegex = /\n*<!-- jira-summary -->[\s\S]*?<!-- \/jira-summary -->/;
+
+/**
+ * Remove the Jira issue summary section from a PR description
+ * @param body the PR description
+ */
+export const stripSummary = (body?: string | null) => (body || '').replace(summaryRegex, '');
+
+/**
+ * Remove the parts of a PR description that the bot writes: the Jira issue summary section,
+ * and the metadata that `probot-metadata` keeps at the end
+ * @param body the PR description
+ */
+export const stripBotContent = (body?: string | null) =>
+  stripSummary(body).replace(/\n\n<!-- probot = .* -->/, '');
+
+/**
+ * The places that Jira issue keys can be detected from, for a PR
+ */
+export type IssueSource = 'title' | 'branch' | 'body' | 'commits';
+
+const issueSourceNames: { [source in IssueSource]: string } = {
+  title: 'the PR title',
+  branch: 'the branch name',
+  body: 'the PR description',
+  commits: 'the commit messages',
+};
+
+/**
+ * Keywords that reference an issue in a PR description, e.g. `Fixes PROJ-123`
+ */
+const bodyKeywords = 'fix(?:e[sd])?|close[sd]?|resolve[sd]?|refs?|relates to';
+
+// config by repo, and issues by Jira instance and key, shared between events
+const configCache = new TtlCache<any>(ttlFromEnv('JIRA_CACHE_TTL', 60));
+const issueCache = new TtlCache<JiraIssue | null>(ttlFromEnv('JIRA_CACHE_TTL', 60));
+// the names of the Jira fields by Jira instance and field id
+const fieldNameCache = new TtlCache<{ [id: string]: string }>(ttlFromEnv('JIRA_CACHE_TTL', 60));
+// the keys of the Jira projects by Jira instance, and the configured keys that Jira doesn't know by repo
+const projectKeyCache = new TtlCache<string[]>(ttlFromEnv('JIRA_CACHE_TTL', 60));
+const unknownProjectKeyCache = new TtlCache<string[]>(ttlFromEnv('JIRA_CACHE_TTL', 60));
+// Jira users by Jira instance and the username, accountId or email that found them
+const userCache = new TtlCache<JiraUser | null>(ttlFromEnv('JIRA_USER_CACHE_TTL', 600));
+
+/**
+ * Matches the issue key of an issue API route, e.g. `issue/PROJ-12/comment`
+ */
+const issueRouteRegex = /^issue\/([A-Z][A-Z0-9_]+-\d+)\b/i;
 
 /**
  * Debug level logging of event and payload
@@ -20,6 +129,7 @@ export const logEvent = async (context: Context) => {
 
 /**
  * Read Jira configuration from the repo, with defaults.
+ * The config is cached for `JIRA_CACHE_TTL` seconds.
  * @param context a Probot event Context
  * @returns a Promise for the Jira config object
  */
@@ -28,16 +138,79 @@ export const getJiraCfg = async (context: Context) => {
     host: '',
     protocol: 'https',
     projectKey: '',
+    projectKeys: [] as string[],
     apiVersion: 'latest',
+    deployment: 'server' as 'server' | 'cloud',
     userMap: {} as { [gitHubUser: string]: string },
+    users: {
+      resolvers: ['map', 'email', 'org'] as string[],
+      orgFile: '.github/jira-users.yml',
+    },
+    labelMap: {} as { [gitHubLabel: string]: LabelMapping },
+    teamMap: {} as { [teamSlug: string]: TeamMapping },
     fields: {
       reviewers: '',
+      epic: '',
+      sprint: '',
+      acceptanceCriteria: '',
+    },
+    summary: {
+      location: 'comment' as 'comment' | 'description' | 'none',
+    },
+    transitions: {
+      changes_requested: '',
+      approved: '',
+      commented: '',
+      merged: '',
+      closed: '',
+    },
+    resolution: '',
+    unlinkOnClose: false,
+    comments: {
+      mode: 'sticky' as 'sticky' | 'append',
+      maxUpdates: 5,
+    },
+    checks: {
+      enabled: false,
+      name: 'Jira',
+      disallowedStatuses: [] as string[],
+      issueTypes: [] as string[],
+      fixVersions: [] as string[],
+    },
+    webhook: {
+      commentOnStatus: ["Won't Do"] as string[],
+    },
+    releases: {
+      enabled: false,
+      branches: ['release/*'] as string[],
+      tagPrefix: 'v',
+      releaseNotes: true,
+    },
+    worklog: {
+      enabled: false,
+      development: true,
+      review: '',
+    },
+    workflow: [] as WorkflowRule[],
+    detection: ['title'] as IssueSource[],
+    issues: {
+      create: true,
+      defaultIssueType: 'Task',
+      issueTypes: {} as { [gitHubLabel: string]: string },
     },
   };
-  const config = await context.config('jira.yml', {
-    jira: defaults,
-  });
-  return config?.jira || defaults;
+  const { owner, repo } = context.repo();
+  const config = await configCache.get(`${owner}/${repo}`, () =>
+    context.config(
+      'jira.yml',
+      {
+        jira: defaults,
+      },
+      // lists in the config replace the defaults, rather than appending to them
+      { arrayMerge: (_, source) => source },
+    ),
+  );
+  return (config?.jira || defaults) as typeof defaults;
 };
 
 /**
@@ -47,70 +220,247 @@ export const getJiraCfg = async (context: Context) => {
  * @returns a Promise for the helper object
  */
 export const getJira = async (context: Context) => {
-  const { host, protocol, projectKey, apiVersion, ...rest } = await getJiraCfg(context);
+  const {
+    host,
+    protocol,
+    projectKey: cfgProjectKey,
+    projectKeys: cfgProjectKeys,
+    apiVersion: cfgApiVersion,
+    deployment,
+    ...rest
+  } = await getJiraCfg(context);
   if (!host) {
     context.log.warn(`No Jira host defined for ${context.payload.repository.name}`);
     return null;
   }
-  if (!projectKey) {
+  const projectKeys = _.uniq(
+    [cfgProjectKey, ...(cfgProjectKeys || [])].filter((k) => !!k).map((k) => k.toUpperCase()),
+  );
+  if (!projectKeys.length) {
     context.log.warn(`No Jira projectKey defined for ${context.payload.repository.name}`);
     return null;
   }
-  const username = process.env.JIRA_USER;
-  const password = process.env.JIRA_PASS;
+  if (rest.comments?.mode !== 'append' && !stickyComments.has(context)) {
+    stickyComments.set(context, { maxUpdates: rest.comments?.maxUpdates || 5 });
+  }
+  // `*` matches the key of any project in Jira
+  const anyProject = projectKeys.includes('*');
+  // The primary project, used when creating issues
+  const projectKey = projectKeys.find((k) => k !== '*') || '';
+  // Jira Cloud authenticates with an account email and API token (or OAuth), and identifies users by accountId
+  const cloud = deployment === 'cloud';
+  const apiVersion = cloud && cfgApiVersion === 'latest' ? '3' : cfgApiVersion;
+  const { credentials, source: credentialsSource } = await resolveCredentials({
+    host,
+    installationId: context.payload.installation?.id,
+    cloud,
+  });
+  const username = 'username' in credentials ? credentials.username : undefined;
+  // With token auth, the bot user must be looked up
+  let self: JiraUser | null = cloud || username === undefined ? null : { name: username };
 
   const url = `${protocol}://${host}`;
+  // the prefix of cache keys, as issues and users visible to the bot depend on its credentials
+  const cachePrefix = `${credentialsSource}:${url}`;
+  // OAuth apps must make requests through the Atlassian API gateway
+  const apiUrl = isOAuth2(credentials)
+    ? `https://api.atlassian.com/ex/jira/${credentials.cloudId}`
+    : url;
+  const keyPattern = `(?:${anyProject ? '[A-Z][A-Z0-9_]+' : projectKeys.join('|')})-\\d+`;
+  const issueKeyRegex = new RegExp(`\\b${keyPattern}\\b`, 'gi');
+  const exactKeyRegex = new RegExp(`^${keyPattern}$`, 'i');
+  const bodyKeywordRegex = new RegExp(
+    `\\b(?:${bodyKeywords})\\s*:?\\s+(${keyPattern}(?:\\s*(?:,|and)\\s*${keyPattern})*)`,
+    'gi',
+  );
+  const findKeys = (text?: string | null) =>
+    _.uniq((text?.match(issueKeyRegex) || []).map((k) => k.toUpperCase()));
   const issuePrefixRegex = new RegExp(
-    `^\\s*\\[?\\s*(${projectKey}-\\d+)\\s*\\]?\\s*(?:-|:)\\s*(.+)\\s*$`,
+    `^\\s*\\[?\\s*(${keyPattern}(?:\\s*\\]?\\s*[,&\\s]\\s*\\[?\\s*${keyPattern})*)\\s*\\]?\\s*(?:-|:)\\s*(.+)\\s*$`,
     'i',
   );
 
   return {
     ...rest,
     username,
+    cloud,
+    apiVersion,
     host,
     protocol,
     projectKey,
+    projectKeys,
     url,
+    projectUrl: projectKey ? `${url}/browse/${projectKey}` : url,
+    cachePrefix,
     issuePrefixRegex,
 
     /**
-     * Given a title that may or may not be prefixed with an issue key,
-     * Parse out the issue from the rest of the title.
-     * @param title The issue prefixed title string
-     * @returns an object containing the `issue` and `description`. If not found, values will be empty string.
+     * Given a title that may or may not be prefixed with one or more issue keys,
+     * Parse out the issues from the rest of the title.
+     * @param title The issue prefixed title string, e.g. `PROJ-12, PROJ-15: Fix things`
+     * @returns an object containing the `issues` list and `description`. If not found, these will be empty.
      */
     parseTitle: (title: string) => {
-      const [, matchedKey, description = ''] = title.match(issuePrefixRegex) || [];
-      const issue = (matchedKey || '').toUpperCase();
-      return { issue, description };
+      const [, matchedKeys = '', description = ''] = title.match(issuePrefixRegex) || [];
+      return { issues: findKeys(matchedKeys), description };
+    },
+
+    /**
+     * Check that a string is exactly one issue key of a configured project, e.g. a command argument
+     * @param text the string to check
+     */
+    isIssueKey: (text: string) => exactKeyRegex.test(text),
+
+    /**
+     * Detect the issue keys for the PR in the current event, checking each configured `detection` source in order.
+     * @param context a Probot event Context
+     * @returns an object containing the `issues` list, the `source` they were found in, and the title `description`.
+     */
+    async detectIssues(context: Context) {
+      const { title, body, head } = (context.payload as any).pull_request;
+      const { issues: titleIssues, description } = this.parseTitle(title);
+      const sources: IssueSource[] = this.detection?.length ? this.detection : ['title'];
+      for (const source of sources) {
+        let issues: string[] = [];
+        switch (source) {
+          case 'title':
+            issues = titleIssues;
+            break;
+          case 'branch':
+            issues = findKeys(head?.ref);
+            break;
+          case 'body':
+            issues = _.uniq(
+              Array.from(stripSummary(body).matchAll(bodyKeywordRegex)).flatMap(([, keys]) =>
+                findKeys(keys),
+              ),
+            );
+            break;
+          case 'commits':
+            try {
+              const { data: commits } = await context.octokit.pulls.listCommits(
+                context.pullRequest({ per_page: 100 }),
+              );
+              issues = _.uniq(commits.flatMap((c) => findKeys(c.commit.message)));
+            } catch (err) {
+              context.log.error(`Failed to list PR commits: ${err.message}`);
+            }
+            break;
+          default:
+            context.log.warn(`Unknown issue detection source: ${source}`);
+        }
+        issues = await this.filterValidIssues(context, issues);
+        if (issues.length) {
+          return { issues, source, description: source === 'title' ? description : title };
+        }
+      }
+      return { issues: [] as string[], source: null, description: title };
+    },
+
+    /**
+     * Get the project keys that are valid for issues linked in this repo.
+     * When configured to match any project, these are read from Jira.
+     * Otherwise, the configured keys that Jira doesn't know are logged, once per `JIRA_CACHE_TTL` seconds.
+     * @param context a Probot event Context
+     * @returns a Promise for the list of project keys
+     */
+    async getValidProjectKeys(context: Context): Promise<string[]> {
+      try {
+        if (!anyProject) {
+          await unknownProjectKeyCache.get(
+            `${cachePrefix}:${context.payload.repository.full_name}`,
+            async () => {
+              const jiraKeys = await this.getJiraProjectKeys();
+              const unknown = projectKeys.filter((k) => !jiraKeys.includes(k));
+              if (unknown.length) {
+                context.log.warn(
+                  `Configured Jira project keys not found in Jira: ${unknown.join(', ')}`,
+                );
+              }
+              return unknown;
+            },
+          );
+          return projectKeys;
+        }
+        return await this.getJiraProjectKeys();
+      } catch (err) {
+        context.log.error(`Failed to list Jira projects: ${err.message}`);
+        return anyProject ? [] : projectKeys;
+      }
+    },
+
+    /**
+     * Get the keys of the projects in Jira. Cached for `JIRA_CACHE_TTL` seconds.
+     */
+    async getJiraProjectKeys(): Promise<string[]> {
+      return projectKeyCache.get(cachePrefix, async () =>
+        (await getProjects(this)).map((p) => p.key),
+      );
+    },
+
+    /**
+     * Drop any issue keys that don't belong to a valid project.
+     * Only necessary when matching any project, to ignore things like `UTF-8`.
+     * @param context a Probot event Context
+     * @param issues the list of Jira issue keys
+     * @returns a Promise for the list of valid issue keys
+     */
+    async filterValidIssues(context: Context, issues: string[]) {
+      if (!issues.length) {
+        return issues;
+      }
+      const validKeys = await this.getValidProjectKeys(context);
+      return anyProject ? issues.filter((i) => validKeys.includes(i.replace(/-\d+$/, ''))) : issues;
     },
 
+    /**
+     * Describes where issue keys were detected, for use in comments
+     * @param source the source the issue keys were detected in
+     * @returns a human readable name for the source
+     */
+    sourceName: (source: IssueSource) => issueSourceNames[source] || source,
+
     /**
      * Sadly the JiraApi is incomplete, so here is a wrapper around `fetch` to simplify requests to the API.
      * Makes some assumptions specify to the API to make it more convenient, such as parsing responses as JSON.
      * @param route The Jira API route to make a request to. Can be a complete URL, or just the route.
      * @param options Pass-through options to `fetch`. Authorization and Content-Type headers are automatically merged in.
      * @returns a Promise for the parsed JSON response, or `null` if no content was returned.
+     * Retries when Jira is rate limiting or unavailable, and rejects with a `JiraError` subclass for error responses.
      */
-    fetch: async (route: string, options?: RequestInit) =>
-      fetch(`${route.startsWith(url) ? route : `${url}/rest/api/${apiVersion}/${route}`}`, {
-        ...options,
-        headers: {
-          ...options?.headers,
-          Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`,
-          Accept: 'application/json',
-          'Content-Type': 'application/json',
-        },
-      }).then(async (r) => {
-        if (r.ok) {
-          if (r.status !== 204) {
-            return r.json();
-          }
-          return null;
+    fetch: async (route: string, options?: RequestInit) => {
+      // changing an issue drops it from the cache, whether or not the change succeeded
+      const changedIssue =
+        options?.method && options.method !== 'GET' && route.match(issueRouteRegex)?.[1];
+      try {
+        return await jiraFetch(
+          `${
+            route.startsWith(url) || route.startsWith(apiUrl)
+              ? route
+              : `${apiUrl}/rest/api/${apiVersion}/${route}`
+          }`,
+          {
+            ...options,
+            headers: {
+              ...options?.headers,
+              Authorization: await getAuthorization(credentials, credentialsSource),
+              Accept: 'application/json',
+              'Content-Type': 'application/json',
+            },
+          },
+        );
+      } finally {
+        if (changedIssue) {
+          issueCache.delete(`${cachePrefix}:${changedIssue.toUpperCase()}`);
         }
-        throw new Error(`${r.status}: ${await r.text()}`);
-      }),
+      }
+    },
+
+    /**
+     * Drop a Jira issue from the cache, e.g. when Jira reports that it changed
+     * @param issue the Jira issue key string
+     */
+    forgetIssue: (issue: string) => issueCache.delete(`${cachePrefix}:${issue.toUpperCase()}`),
 
     /**
      * Generates markdown syntax for a link to a Jira issue
@@ -120,36 +470,153 @@ export const getJira = async (context: Context) => {
     issueLinkMd: (issue: string) => `[${issue}](${url}/browse/${issue})`,
 
     /**
-     * Read the cached jira issue from the GitHub issue metadata
+     * Describe the state of a Jira issue as a markdown list item
+     * @param issue the Jira issue key string
+     * @param issueDetail the issue, as returned by `getIssueDetail`
+     */
+    describeIssue(issue: string, issueDetail: JiraIssue | null) {
+      if (!issueDetail) {
+        return `- \`${issue}\`: could not be found in Jira`;
+      }
+      const { summary, status, assignee } = issueDetail.fields;
+      const reviewers = this.getReviewers(issueDetail);
+      return `- ${this.issueLinkMd(issue)}${summary ? ` ${escapeMentions(summary)}` : ''}: \`${
+        status?.name || 'unknown'
+      }\`, assigned to ${assignee?.displayName || 'nobody'}${
+        reviewers.length ? `, reviewers: ${reviewers.map((r) => r.displayName).join(', ')}` : ''
+      }`;
+    },
+
+    /**
+     * Read the cached jira issues from the GitHub issue metadata
+     * @param context a Probot event Context
+     * @param pr optional PR to read from, rather than the one of the event, e.g. as listed by the API
+     * @returns the list of Jira issue keys, empty if not set
+     */
+    getCachedIssues: async (
+      context: Context,
+      pr?: { number: number; body?: string | null },
+    ): Promise<string[]> => {
+      const cached = await metadata(
+        context,
+        pr && context.repo({ issue_number: pr.number, body: pr.body }),
+      ).get(metaKey_jiraIssue);
+      // older versions stored a single issue key string
+      return (Array.isArray(cached) ? cached : [cached]).filter((i) => !!i);
+    },
+
+    /**
+     * Read the cached jira issues from the GitHub issue metadata, along with those linked with `/jira link`
+     * @param context a Probot event Context
+     * @returns the lists of Jira issue keys, empty if not set
+     */
+    getLinkedIssues: async (
+      context: Context,
+    ): Promise<{ issues: string[]; commandIssues: string[] }> => {
+      const data = (await metadata(context).get()) || {};
+      const cached = data[metaKey_jiraIssue];
+      return {
+        // older versions stored a single issue key string
+        issues: (Array.isArray(cached) ? cached : [cached]).filter((i) => !!i),
+        commandIssues: data[metaKey_commandIssues] || [],
+      };
+    },
+
+    /**
+     * Write jira issues to the GitHub issue's metadata
      * @param context a Probot event Context
-     * @returns the Jira issue key, or empty string if not set
+     * @param issues the list of Jira issue keys
+     * @param commandIssues the keys linked with `/jira link`, if they changed
      */
-    getCachedIssue: async (context: Context) =>
-      (await metadata(context).get(metaKey_jiraIssue)) || '',
+    setCachedIssues: async (context: Context, issues: string[], commandIssues?: string[]) =>
+      commandIssues
+        ? metadata(context).set({
+            [metaKey_jiraIssue]: issues,
+            [metaKey_commandIssues]: commandIssues,
+          })
+        : metadata(context).set(metaKey_jiraIssue, issues),
 
     /**
-     * Write jira issue to the GitHub issue's metadata
+     * Add a remote link from the Jira issue to the PR, unless it already has one
      * @param context a Probot event Context
      * @param issue the Jira issue key string
-     * @returns the Jira issue key, or empty string if not set
+     * @param linkUrl the url of the PR
+     * @param title the title of the link
+     * @returns a Promise for whether a new link was added
      */
-    setCachedIssue: async (context: Context, issue: string) =>
-      metadata(context).set(metaKey_jiraIssue, issue),
+    async addRemoteLink(context: Context, issue: string, linkUrl: string, title: string) {
+      const existingLinks = await getRemoteLinks(this, issue);
+      if (existingLinks.some((link) => link.object.url === linkUrl)) {
+        context.log.info(`Jira issue ${issue} already has link to ${linkUrl}`);
+        return false;
+      }
+      await addRemoteLink(this, issue, { url: linkUrl, title });
+      return true;
+    },
 
     /**
-     * Gets Jira issue detail, null if not found
+     * Remove any remote links from the Jira issue that point to the given url
      * @param context a Probot event Context
      * @param issue the Jira issue key string
+     * @param linkUrl the url of the linked PR
      */
-    async getIssueDetail(context: Context, issue: string) {
+    async removeRemoteLink(context: Context, issue: string, linkUrl: string) {
       try {
-        return await this.fetch(`issue/${issue}`);
+        const existingLinks = (await getRemoteLinks(this, issue)).filter(
+          (link) => link.object.url === linkUrl && link.self,
+        );
+        await Promise.all(
+          existingLinks.map(async (link) => {
+            context.log.info(`Deleting link ${link.self}`);
+            await this.fetch(link.self!, { method: 'DELETE' });
+          }),
+        );
       } catch (err) {
-        context.log.debug(`Jira issue key '${issue}' not found.`);
-        return null;
+        context.log.info(`Removing existing link from Jira issue failed`, err);
       }
     },
 
+    /**
+     * Gets Jira issue detail, null if not found. Cached for `JIRA_CACHE_TTL` seconds.
+     * Other errors, e.g. when Jira is unavailable, are thrown.
+     * @param context a Probot event Context
+     * @param issue the Jira issue key string
+     */
+    async getIssueDetail(context: Context, issue: string): Promise<JiraIssue | null> {
+      return issueCache.get(`${cachePrefix}:${issue.toUpperCase()}`, async () => {
+        try {
+          return await getIssue(this, issue, { customFields: this.fields });
+        } catch (err) {
+          if (!(err instanceof NotFoundError)) {
+            throw err;
+          }
+          context.log.debug(`Jira issue key '${issue}' not found.`);
+          return null;
+        }
+      });
+    },
+
+    /**
+     * Get the name of a Jira field, e.g. as Jira Server names custom fields in webhooks.
+     * Cached for `JIRA_CACHE_TTL` seconds.
+     * @param id the field id, e.g. `customfield_11234`
+     * @returns a Promise for the field name, or undefined if there is no such field
+     */
+    async getFieldName(id: string): Promise<string | undefined> {
+      const names = await fieldNameCache.get(cachePrefix, async () =>
+        _.fromPairs((await getFields(this)).map((f) => [f.id, f.name])),
+      );
+      return names[id];
+    },
+
+    /**
+     * Get the reviewers of a Jira issue, from the configured `fields.reviewers`
+     * @param issueDetail the issue, as returned by `getIssueDetail`
+     */
+    getReviewers(issueDetail: JiraIssue): JiraUser[] {
+      return getCustomValues(this, issueDetail, this.fields).reviewers;
+    },
+
     /**
      * Set the jira issue assignee to match the given github login
      * @param context a Probot event Context
@@ -157,24 +624,20 @@ export const getJira = async (context: Context) => {
      * @param login the GitHub username
      */
     async setAssignee(context: Context, issue: string, login: string) {
-      // Lookup GH login in the configured user map, or fall back to searching for a match for the login directly
-      const targetUser = this.userMap[login] || login;
-      // Try an exact match
-      let jiraUser = null;
-
+      let jiraUser: JiraUser | null;
       try {
-        jiraUser = await this.fetch(`user?username=${targetUser}`);
+        // Resolve the GH login to a Jira user, or fall back to searching for a match for the login directly
+        const targetUser = (await this.toJiraUserKey(context, login)) || login;
+        jiraUser = await this.findUser(context, targetUser);
       } catch (err) {
-        context.log.warn(`No exact match for Jira user '${targetUser}', trying search`);
-        const jiraUsers = await this.fetch(
-          `user/search?query=${targetUser}&username=${targetUser}`,
+        context.log.error(`Failed to find the Jira user for ${login}: ${err.message}`);
+        await writeComment(
+          context,
+          `Warning: failed to update assignee for ${this.issueLinkMd(issue)} as ${describeJiraError(
+            err,
+          )}, please update manually.`,
         );
-        if (jiraUsers.length !== 1) {
-          context.log.debug(JSON.stringify({ targetUser, userMap: this.userMap, jiraUsers }));
-          jiraUser = null;
-        } else {
-          jiraUser = jiraUsers[0];
-        }
+        return;
       }
       if (!jiraUser) {
         // If there's not exactly one match, consider it a failure
@@ -191,7 +654,7 @@ export const getJira = async (context: Context) => {
       try {
         await this.fetch(`issue/${issue}/assignee`, {
           method: 'PUT',
-          body: JSON.stringify(jiraUser),
+          body: JSON.stringify(cloud ? { accountId: jiraUser.accountId } : jiraUser),
         });
         await writeComment(
           context,
@@ -213,21 +676,41 @@ export const getJira = async (context: Context) => {
      * @param context a Probot event Context
      * @param issue the Jira issue key string
      * @param logins the GitHub usernames
+     * @param teams the reviewers covered by the requested teams. Their unmapped members are not warned about.
      */
-    async setReviewers(context: Context, issue: string, logins: string[]) {
+    async setReviewers(
+      context: Context,
+      issue: string,
+      logins: string[],
+      teams: TeamReviewers = { logins: [], jiraKeys: [] },
+    ) {
       if (!this.fields?.reviewers) {
         context.log.warn('Jira reviewers field not configured, skipping');
         return;
       }
+      const keys = await Promise.all(logins.map((r) => this.toJiraUserKey(context, r)));
+      const unmapped = logins.filter((_login, i) => !keys[i]);
+      if (unmapped.length) {
+        await writeComment(
+          context,
+          `Warning: no Jira user found for ${unmapped
+            .map((l) => `\`${l}\``)
+            .join(', ')}, so they are not reviewers of ${this.issueLinkMd(
+            issue,
+          )}. Use \`/jira users\` to list the unmapped users.`,
+        );
+      }
+      const teamKeys = await Promise.all(
+        _.difference(teams.logins, logins).map((r) => this.toJiraUserKey(context, r)),
+      );
       try {
         await this.fetch(`issue/${issue}`, {
           method: 'PUT',
           body: JSON.stringify({
             fields: {
-              [this.fields.reviewers]: logins
-                .map((r) => this.userMap[r])
-                .filter((u) => !!u)
-                .map((name) => ({ name })),
+              [this.fields.reviewers]: _.uniq([...keys, ...teamKeys, ...teams.jiraKeys])
+                .filter((u): u is string => !!u)
+                .map((key) => this.userRef(key)),
             },
           }),
         });
@@ -242,23 +725,392 @@ export const getJira = async (context: Context) => {
       }
     },
 
-    toGitHubUser(jiraUser: string): null | string {
-      return Object.entries(this.userMap).find(([, j]) => j === jiraUser)?.[0] || null;
+    /**
+     * Transition the jira issue to the given status, using the first workflow transition that leads there
+     * @param context a Probot event Context
+     * @param issue the Jira issue key string
+     * @param status the name of the target status (or of the transition itself)
+     * @param fields optional fields to set as part of the transition (e.g. `resolution`)
+     * @returns true if the issue was transitioned (or was already in the target status)
+     */
+    async transitionIssue(context: Context, issue: string, status: string, fields?: object) {
+      const target = status.toLowerCase();
+      try {
+        const detail = await getIssue(this, issue, { fields: ['status'] });
+        if (detail.fields.status?.name.toLowerCase() === target) {
+          context.log.debug(`Jira issue ${issue} is already in status '${status}'`);
+          return true;
+        }
+        const transitions = await getTransitions(this, issue);
+        const transition =
+          transitions.find((t) => t.to?.name.toLowerCase() === target) ||
+          transitions.find((t) => t.name.toLowerCase() === target);
+        if (!transition) {
+          context.log.warn(`No transition to '${status}' available for Jira issue ${issue}`);
+          await writeComment(
+            context,
+            `Warning: ${this.issueLinkMd(
+              issue,
+            )} cannot be transitioned to \`${status}\`, please update manually.`,
+          );
+          return false;
+        }
+        // only set the fields on the transition screen, when Jira lists them
+        const screenFields =
+          fields && transition.fields ? _.pick(fields, Object.keys(transition.fields)) : fields;
+        const skipped = _.difference(Object.keys(fields || {}), Object.keys(screenFields || {}));
+        if (skipped.length) {
+          context.log.debug(`Transition ${transition.name} does not set ${skipped.join(', ')}`);
+        }
+        await doTransition(
+          this,
+          issue,
+          transition.id,
+          _.isEmpty(screenFields) ? undefined : screenFields,
+        );
+        await writeComment(
+          context,
+          `Jira ticket ${this.issueLinkMd(issue)} has been transitioned to \`${
+            transition.to?.name || status
+          }\``,
+        );
+        return true;
+      } catch (err) {
+        context.log.error(`Failed to transition Jira issue: ${err.message}`);
+        await writeComment(
+          context,
+          `Warning: failed to transition ${this.issueLinkMd(issue)}, please update manually.`,
+        );
+        return false;
+      }
+    },
+
+    /**
+     * Log work on the jira issue
+     * @param context a Probot event Context
+     * @param issue the Jira issue key string
+     * @param worklog the time spent, as a Jira duration (e.g. `1h 30m`) or in seconds,
+     * with an optional Markdown comment and start time
+     * @returns true if the work was logged
+     */
+    async addWorklog(
+      context: Context,
+      issue: string,
+      {
+        timeSpent,
+        comment,
+        started,
+      }: { timeSpent: string | number; comment?: string; started?: Date },
+    ) {
+      try {
+        await this.fetch(`issue/${issue}/worklog`, {
+          method: 'POST',
+          body: JSON.stringify({
+            ...(typeof timeSpent === 'number'
+              ? { timeSpentSeconds: timeSpent }
+              : { timeSpent: timeSpent }),
+            ...(comment ? { comment: cloud ? markdownToAdf(comment) : comment } : {}),
+            // Jira expects e.g. `2021-02-05T04:11:36.000+0000`
+            ...(started ? { started: started.toISOString().replace('Z', '+0000') } : {}),
+          }),
+        });
+        return true;
+      } catch (err) {
+        context.log.error(`Failed to log work on ${issue}: ${err.message}`);
+        await writeComment(
+          context,
+          `Warning: failed to log work on ${this.issueLinkMd(issue)}, please update manually.`,
+        );
+        return false;
+      }
+    },
+
+    /**
+     * Find a single Jira user, first by exact match (username or accountId), then by search (e.g. email)
+     * @param context a Probot event Context
+     * @param targetUser the Jira username, accountId or email to find
+     * @returns the Jira user, or null if there is not exactly one match. Other errors, e.g. when Jira
+     * is unavailable, are thrown.
+     */
+    async findUser(context: Context, targetUser: string): Promise<JiraUser | null> {
+      return userCache.get(`${cachePrefix}:${targetUser}`, async () => {
+        try {
+          // Try an exact match
+          return await getUser(this, targetUser);
+        } catch (err) {
+          if (!(err instanceof NotFoundError)) {
+            throw err;
+          }
+          context.log.warn(`No exact match for Jira user '${targetUser}', trying search`);
+          const jiraUsers = await searchUsers(this, targetUser);
+          if (jiraUsers.length !== 1) {
+            context.log.debug(JSON.stringify({ targetUser, userMap: this.userMap, jiraUsers }));
+            return null;
+          }
+          return jiraUsers[0];
+        }
+      });
+    },
+
+    /**
+     * The identifying key of a Jira user object: `name` for Jira Server, `accountId` for Jira Cloud
+     * @param jiraUser the Jira user object, as returned by the API
+     */
+    userKey(jiraUser?: JiraUser | null): string | undefined {
+      return cloud ? jiraUser?.accountId : jiraUser?.name;
+    },
+
+    /**
+     * Reference a Jira user by key, as expected in the fields of an API request
+     * @param key the Jira username (server) or accountId (cloud)
+     */
+    userRef(key: string) {
+      return cloud ? { accountId: key } : { name: key };
+    },
+
+    /**
+     * Get the Jira user that the bot is authenticated as
+     */
+    async getSelf() {
+      if (!self) {
+        self = await userCache.get(`${cachePrefix}:myself`, () => getMyself(this));
+      }
+      return self;
+    },
+
+    /**
+     * Find the Jira user key for a GitHub login, using the configured `users.resolvers`:
+     * the `userMap`, then the user's emails, then the org's shared user map.
+     * @param context a Probot event Context
+     * @param login the GitHub username
+     * @returns the Jira username (server) or accountId (cloud), or null if not found
+     */
+    async toJiraUserKey(context: Context, login: string): Promise<string | null> {
+      return resolveJiraUser(context, this, login);
+    },
+
+    /**
+     * Resolve the GitHub users mentioned in Markdown to Jira accountIds, for ADF mentions.
+     * Only users in the `userMap` are resolved.
+     * @param context a Probot event Context
+     * @param markdown the GitHub Markdown text
+     * @returns a Promise for the map of GitHub login to Jira accountId
+     */
+    async getMentions(context: Context, markdown: string) {
+      const mentions: { [login: string]: string } = {};
+      for (const login of findMentions(markdown)) {
+        const accountId = this.userMap[login] && (await this.toJiraUserKey(context, login));
+        if (accountId) {
+          mentions[login] = accountId;
+        }
+      }
+      return mentions;
+    },
+
+    /**
+     * Find the GitHub login for a Jira user, using the configured `users.resolvers`
+     * @param context a Probot event Context
+     * @param jiraUser the Jira username / accountId, or user object as returned by the API
+     * @returns the GitHub username, or null if not found
+     */
+    async toGitHubUser(
+      context: Context,
+      jiraUser?: string | JiraUser | null,
+    ): Promise<string | null> {
+      return jiraUser ? resolveGitHubUser(context, this, jiraUser) : null;
+    },
+
+    /**
+     * Get the plain text of a rich text field returned by the Jira API
+     * @param richText wiki markup string (server) or ADF document (cloud)
+     */
+    fromRichText(richText: JiraRichText): string {
+      return typeof richText === 'string' ? richText : adfToText(richText);
+    },
+
+    /**
+     * Convert a rich text field returned by the Jira API to Markdown.
+     * Mentions of Jira users in the `userMap` become mentions of their GitHub users,
+     * and other `@login` text is escaped.
+     * @param richText wiki markup string (server) or ADF document (cloud)
+     */
+    toMarkdown(richText: JiraRichText): string {
+      return typeof richText === 'string'
+        ? jiraToMarkdown(richText, { users: _.invert(this.userMap) })
+        : escapeMentions(adfToText(richText));
     },
   };
 };
 
+type Unpromise<T> = T extends Promise<infer U> ? U : T;
+
+/**
+ * The Jira API helper for a repo, as returned by `getJira`
+ */
+export type Jira = NonNullable<Unpromise<ReturnType<typeof getJira>>>;
+
+/**
+ * Render the sticky comment body
+ * @param state the sticky comment state
+ */
+const renderStickyComment = ({ status, updates }: StickyComment) =>
+  [
+    stickyMarker,
+    status.length ? `**Jira**\n${status.join('\n')}` : '',
+    updates.length ? '**Latest updates**' : '',
+    ...updates.map((update) => `${updateMarker}\n${update}`),
+  ]
+    .filter((section) => !!section)
+    .join('\n\n');
+
+/**
+ * Read the status and latest updates back from the sticky comment body
+ * @param body the comment body, as rendered by `renderStickyComment`
+ */
+const parseStickyComment = (body: string) => {
+  const [head, ...updates] = body.split(`\n\n${updateMarker}\n`);
+  const status = head
+    .replace(stickyMarker, '')
+    .replace(/\*\*Latest updates\*\*\s*$/, '')
+    .trim()
+    .replace(/^\*\*Jira\*\*\n/, '');
+  return { status: status ? [status] : [], updates };
+};
+
+/**
+ * Read the sticky comment, using the id saved in the metadata
+ * @param context a Probot event Context
+ * @param sticky the sticky comment entry for the Context
+ * @returns a Promise for the comment state, without an id if there is no comment yet
+ */
+const loadStickyComment = async (
+  context: Context,
+  sticky: { id?: number },
+): Promise<StickyComment> => {
+  if (!sticky.id) {
+    sticky.id = (await metadata(context).get(metaKey_comment))?.id;
+  }
+  if (sticky.id) {
+    try {
+      const { data } = await context.octokit.issues.getComment(
+        context.repo({ comment_id: sticky.id }),
+      );
+      return { id: sticky.id, ...parseStickyComment(data.body || '') };
+    } catch (err) {
+      if (err.status !== 404) {
+        throw err;
+      }
+      // the comment was deleted, so post a new one
+      sticky.id = undefined;
+    }
+  }
+  return { status: [], updates: [] };
+};
+
 /**
- * Helper to simplify writing a comment to a GH issue (or PR)
+ * Rewrite the sticky comment, creating it if needed.
+ * Only the id of a new comment is saved to the metadata, as each write edits the PR body.
+ * @param context a Probot event Context
+ * @param sticky the sticky comment entry for the Context
+ * @param state the sticky comment state
+ */
+const saveStickyComment = async (
+  context: Context,
+  sticky: { id?: number },
+  state: StickyComment,
+) => {
+  const body = renderStickyComment(state);
+  if (state.id) {
+    await context.octokit.issues.updateComment(context.repo({ comment_id: state.id, body }));
+    return;
+  }
+  const { data } = await context.octokit.issues.createComment(context.issue({ body }));
+  sticky.id = data?.id;
+  await metadata(context).set(metaKey_comment, { id: sticky.id });
+};
+
+/**
+ * Read, change and rewrite the sticky comment. Updates to the same PR are made one at a time,
+ * so that concurrent events don't lose each other's updates, or each create a comment.
+ * @param context a Probot event Context
+ * @param sticky the sticky comment entry for the Context
+ * @param update changes the state, returning whether to rewrite the comment
+ */
+const updateStickyComment = (
+  context: Context,
+  sticky: { id?: number },
+  update: (state: StickyComment) => boolean,
+) => {
+  const { owner, repo, issue_number } = context.issue();
+  return serialize(`${owner}/${repo}#${issue_number}`, async () => {
+    const state = await loadStickyComment(context, sticky);
+    if (update(state)) {
+      await saveStickyComment(context, sticky, state);
+    }
+  });
+};
+
+/**
+ * Helper to simplify writing a comment to a GH issue (or PR).
+ * Unless the repo uses `append` comments, the message is added to the latest updates
+ * in the sticky status comment, rather than posted as a new comment.
  * @param context a Probot event Context
  * @param comment the comment message string
  */
-export const writeComment = async (context: Context, comment: string) =>
-  context.octokit.issues.createComment(
-    context.issue({
-      body: comment,
-    }),
-  );
+export const writeComment = async (context: Context, comment: string) => {
+  const sticky = stickyComments.get(context);
+  if (!sticky) {
+    await context.octokit.issues.createComment(
+      context.issue({
+        body: comment,
+      }),
+    );
+    return;
+  }
+  await updateStickyComment(context, sticky, (state) => {
+    state.updates = [...state.updates, comment].slice(-sticky.maxUpdates);
+    state.status = sticky.status || state.status;
+    return true;
+  });
+};
+
+/**
+ * Check whether the sticky status comment is used for this event
+ * @param context a Probot event Context
+ */
+export const usesStickyComment = (context: Context) => stickyComments.has(context);
+
+/**
+ * Set the linked issue summary shown in the sticky status comment.
+ * It is written along with the next comment, or by `flushStickyComment`.
+ * @param context a Probot event Context
+ * @param status markdown lines describing the linked issues
+ */
+export const setStickyStatus = (context: Context, status: string[]) => {
+  const sticky = stickyComments.get(context);
+  if (sticky) {
+    sticky.status = status;
+  }
+};
+
+/**
+ * Write the sticky status comment, if the issue summary has changed since it was last written
+ * @param context a Probot event Context
+ */
+export const flushStickyComment = async (context: Context) => {
+  const sticky = stickyComments.get(context);
+  if (!sticky?.status) {
+    return;
+  }
+  const status = sticky.status;
+  await updateStickyComment(context, sticky, (state) => {
+    if (state.status.join('\n') === status.join('\n')) {
+      return false;
+    }
+    state.status = status;
+    return true;
+  });
+};
 
 /**
  * Helper to extract the primary assignee from a pull_request payload
@@ -0,0 +1,281 @@
+import { Context } from 'probot';
+import _ from 'lodash';
+import type { Jira } from './probotHelpers';
+import type { JiraIssue, JiraVersion } from './jiraApi';
+import { createVersion, getProject, getVersions, releaseVersion } from './jiraApi';
+import { writeComment } from './probotHelpers';
+import { escapeMentions } from './j2m';
+import { matchesPattern } from './workflow';
+
+const notesStart = '<!-- jira-release-notes -->';
+const notesEnd = '<!-- /jira-release-notes -->';
+const notesRegex = new RegExp(`\\n*${notesStart}[\\s\\S]*?${notesEnd}`);
+// the PR number in the first line of a merge or squash commit message,
+// e.g. `Merge pull request #12 from owner/branch` or `Fix foo (#12)`
+const prNumberRegex = /^Merge pull request #(\d+) |\(#(\d+)\)$/;
+// the most GitHub requests to make at once when looking up the PRs of a release
+const prLookupLimit = 5;
+
+/**
+ * The Jira versions found or created during an event, by project key and version name
+ */
+type VersionCache = { [project: string]: { [name: string]: JiraVersion } };
+
+/**
+ * Get the Jira project key of an issue key, e.g. `PROJ` for `PROJ-12`
+ */
+const projectOf = (issue: string) => issue.replace(/-\d+$/, '');
+
+/**
+ * Find the Jira version of the project with the given name, creating it if needed
+ * @param jira the Jira API helper
+ * @param project the Jira project key
+ * @param name the version name
+ * @param cache the versions already found during this event
+ * @returns a Promise for the Jira version
+ */
+const ensureVersion = async (jira: Jira, project: string, name: string, cache: VersionCache) => {
+  const cached = cache[project]?.[name];
+  if (cached) {
+    return cached;
+  }
+  let version = (await getVersions(jira, project)).find((v) => v.name === name);
+  if (!version) {
+    version = await createVersion(jira, (await getProject(jira, project)).id, name);
+  }
+  cache[project] = { ...cache[project], [name]: version };
+  return version;
+};
+
+/**
+ * Add the fix version to the Jira issue, creating the version in its project if needed
+ * @param jira the Jira API helper
+ * @param issue the Jira issue key string
+ * @param name the version name
+ * @param cache the versions already found during this event
+ */
+const addFixVersion = async (jira: Jira, issue: string, name: string, cache: VersionCache) => {
+  await ensureVersion(jira, projectOf(issue), name, cache);
+  await jira.fetch(`issue/${issue}`, {
+    method: 'PUT',
+    body: JSON.stringify({ update: { fixVersions: [{ add: { name } }] } }),
+  });
+};
+
+/**
+ * Get the Jira version name for a release branch, e.g. `1.2` for `release/1.2`
+ * @param jira the Jira API helper
+ * @param branch the PR base branch
+ * @returns the version name, or null if it isn't a release branch
+ */
+export const branchVersion = (jira: Jira, branch: string) =>
+  (jira.releases?.branches || []).some((b: string) => matchesPattern(branch, b))
+    ? branch.split('/').pop() || null
+    : null;
+
+/**
+ * Get the Jira version name for a release tag, e.g. `1.2.0` for `v1.2.0`
+ * @param jira the Jira API helper
+ * @param tag the release tag name
+ */
+export const tagVersion = (jira: Jira, tag: string) => {
+  const prefix = jira.releases?.tagPrefix || '';
+  return prefix && tag.startsWith(prefix) ? tag.slice(prefix.length) : tag;
+};
+
+/**
+ * When a PR is merged into a release branch, set the matching fix version on the linked issues.
+ * Does nothing unless `releases.enabled` is set in the config.
+ * @param context a Probot `pull_request.closed` event Context
+ * @param jira the Jira API helper
+ * @param issues the Jira issue keys linked to the PR
+ */
+export const syncFixVersion = async (context: Context, jira: Jira, issues: string[]) => {
+  const { merged, base } = (context.payload as any).pull_request;
+  const version = jira.releases?.enabled && merged && branchVersion(jira, base.ref);
+  if (!version) {
+    return;
+  }
+  const cache: VersionCache = {};
+  const updated: string[] = [];
+  for (const issue of issues) {
+    try {
+      await addFixVersion(jira, issue, version, cache);
+      updated.push(issue);
+    } catch (err) {
+      context.log.error(`Failed to set fix version on ${issue}: ${err.message}`);
+      await writeComment(
+        context,
+        `Warning: failed to set fix version \`${version}\` on ${jira.issueLinkMd(
+          issue,
+        )}, please update manually.`,
+      );
+    }
+  }
+  if (updated.length) {
+    await writeComment(
+      context,
+      `Set fix version \`${version}\` on ${updated.map((i) => jira.issueLinkMd(i)).join(', ')}`,
+    );
+  }
+};
+
+/**
+ * Map the items with an async function, running at most `limit` calls at once
+ * @param items the items to map
+ * @param limit the most calls to run at once
+ * @param fn the async function to call for each item
+ * @returns a Promise for the results, in the order of the items
+ */
+const mapLimit = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(_.times(Math.min(limit, items.length), worker));
+  return results;
+};
+
+/**
+ * Get the PR number of a merge or squash commit from its message
+ * @param message the commit message
+ * @returns the PR number, or null if the message doesn't name one
+ */
+const commitPrNumber = (message = '') => {
+  const match = message.split('\n')[0].match(prNumberRegex);
+  return match ? Number(match[1] || match[2]) : null;
+};
+
+/**
+ * Find the merged PRs in a release, from the commits since the previous release.
+ * PRs named in merge and squash commit messages are fetched directly,
+ * and the PRs of the other commits are looked up by commit.
+ * @param context a Probot `release` event Context
+ * @returns a Promise for the list of PRs
+ */
+const getReleasePrs = async (context: Context) => {
+  const { release } = context.payload as any;
+  const { data: releases } = await context.octokit.repos.listReleases(
+    context.repo({ per_page: 100 }),
+  );
+  const previous = _.maxBy(
+    releases.filter(
+      (r) =>
+        !r.draft &&
+        r.id !== release.id &&
+        !!r.published_at &&
+        r.published_at < release.published_at,
+    ),
+    (r) => r.published_at,
+  );
+  const commits = previous
+    ? (
+        await context.octokit.repos.compareCommits(
+          context.repo({ base: previous.tag_name, head: release.tag_name }),
+        )
+      ).data.commits
+    : (
+        await context.octokit.repos.listCommits(
+          context.repo({ sha: release.tag_name, per_page: 100 }),
+        )
+      ).data;
+  const numbers = commits.map((c) => commitPrNumber(c.commit?.message));
+  const named = await mapLimit(
+    _.uniq(numbers.filter((n): n is number => !!n)),
+    prLookupLimit,
+    async (pull_number) => (await context.octokit.pulls.get(context.repo({ pull_number }))).data,
+  );
+  const found = await mapLimit(
+    commits.filter((_c, i) => !numbers[i]),
+    prLookupLimit,
+    async ({ sha }) =>
+      (
+        await context.octokit.repos.listPullRequestsAssociatedWithCommit(
+          context.repo({ commit_sha: sha }),
+        )
+      ).data,
+  );
+  return _.uniqBy(
+    [...named, ..._.flatten(found)].filter((pr) => !!pr.merged_at),
+    (pr) => pr.number,
+  );
+};
+
+/**
+ * Render the release notes for the Jira issues in a release
+ * @param jira the Jira API helper
+ * @param issueDetails map of the issue keys to their details, as returned by `getIssueDetail`
+ */
+const renderReleaseNotes = (jira: Jira, issueDetails: { [issue: string]: JiraIssue | null }) =>
+  [
+    notesStart,
+    '### Jira issues',
+    '',
+    ...Object.entries(issueDetails).map(
+      ([issue, detail]) =>
+        `- ${jira.issueLinkMd(issue)}${
+          detail?.fields?.summary ? ` ${escapeMentions(detail.fields.summary)}` : ''
+        }`,
+    ),
+    notesEnd,
+  ].join('\n');
+
+/**
+ * When a GitHub release is published, set its fix version on the Jira issues linked to the PRs
+ * in the release, mark the Jira version released, and add the release notes to the release.
+ * Does nothing unless `releases.enabled` is set in the config.
+ * @param context a Probot `release.published` event Context
+ * @param jira the Jira API helper
+ */
+export const syncRelease = async (context: Context, jira: Jira) => {
+  if (!jira.releases?.enabled) {
+    return;
+  }
+  const { release } = context.payload as any;
+  const name = tagVersion(jira, release.tag_name);
+  const prs = await getReleasePrs(context);
+  const issues = _.uniq(
+    _.flatten(await mapLimit(prs, prLookupLimit, (pr) => jira.getCachedIssues(context, pr))),
+  ).sort();
+  if (!issues.length) {
+    context.log.info(`No Jira issues found in release ${release.tag_name}`);
+    return;
+  }
+
+  const cache: VersionCache = {};
+  for (const issue of issues) {
+    try {
+      await addFixVersion(jira, issue, name, cache);
+    } catch (err) {
+      context.log.error(`Failed to set fix version ${name} on ${issue}: ${err.message}`);
+    }
+  }
+  const releaseDate = (release.published_at || new Date().toISOString()).slice(0, 10);
+  for (const project of Object.keys(cache)) {
+    const version = cache[project][name];
+    if (version.released) {
+      continue;
+    }
+    try {
+      await releaseVersion(jira, version.id, releaseDate);
+    } catch (err) {
+      context.log.error(`Failed to release Jira version ${name} in ${project}: ${err.message}`);
+    }
+  }
+
+  if (jira.releases.releaseNotes) {
+    const issueDetails = _.zipObject(
+      issues,
+      await Promise.all(issues.map((issue) => jira.getIssueDetail(context, issue))),
+    );
+    const body = `${(release.body || '').replace(notesRegex, '')}\n\n${renderReleaseNotes(
+      jira,
+      issueDetails,
+    )}`.trimStart();
+    await context.octokit.repos.updateRelease(context.repo({ release_id: release.id, body }));
+  }
+};
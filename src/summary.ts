@@ -0,0 +1,186 @@
+import { Context } from 'probot';
+import _ from 'lodash';
+import type { Jira } from './probotHelpers';
+import { escapeMentions } from './j2m';
+import { getCustomValues, JiraIssue } from './jiraApi';
+import {
+  setStickyStatus,
+  flushStickyComment,
+  stripSummary,
+  usesStickyComment,
+} from './probotHelpers';
+
+const summaryStart = '<!-- jira-summary -->';
+const summaryEnd = '<!-- /jira-summary -->';
+
+// long descriptions are truncated, to keep within the GitHub comment and metadata size limits
+const maxDescriptionLength = 1000;
+
+/**
+ * Escape a value for use in a Markdown table cell
+ */
+const cell = (value?: string | null) => (value || '-').replace(/\|/g, '\\|');
+
+/**
+ * Render a summary card of a Jira issue, in Markdown
+ * @param jira the Jira API helper
+ * @param issue the Jira issue key string
+ * @param issueDetail the issue, as returned by `getIssueDetail`
+ */
+export const renderIssueCard = (jira: Jira, issue: string, issueDetail: JiraIssue | null) => {
+  if (!issueDetail) {
+    return jira.describeIssue(issue, null);
+  }
+  const fields = issueDetail.fields || {};
+  const {
+    epic,
+    sprints,
+    acceptanceCriteria: criteria,
+  } = getCustomValues(jira, issueDetail, jira.fields);
+  const parent = fields.parent?.key || epic;
+  const description: string = fields.description
+    ? _.truncate(jira.toMarkdown(fields.description).trim(), { length: maxDescriptionLength })
+    : '';
+
+  const lines = [
+    `#### ${jira.issueLinkMd(issue)}${fields.summary ? ` ${escapeMentions(fields.summary)}` : ''}`,
+    '',
+    '| Type | Priority | Status | Fix versions |',
+    '| --- | --- | --- | --- |',
+    `| ${[
+      fields.issuetype?.name,
+      fields.priority?.name,
+      fields.status?.name,
+      (fields.fixVersions || []).map((v) => v.name).join(', '),
+    ]
+      .map(cell)
+      .join(' | ')} |`,
+  ];
+  const extras = [
+    parent && `**Parent:** ${jira.issueLinkMd(parent)}`,
+    sprints.length && `**Sprint:** ${sprints.join(', ')}`,
+  ].filter((e) => !!e);
+  if (extras.length) {
+    lines.push('', extras.join(' · '));
+  }
+  if (criteria) {
+    lines.push('', '**Acceptance criteria**', '', jira.toMarkdown(criteria).trim());
+  }
+  if (description) {
+    lines.push('', '<details><summary>Description</summary>', '', description, '', '</details>');
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Render the status of the linked issues, for the sticky status comment
+ * @param jira the Jira API helper
+ * @param issues the Jira issue keys linked to the PR
+ * @param issueDetails map of the issue keys to their details, as returned by `getIssueDetail`
+ * @returns the list of Markdown lines
+ */
+export const renderStatus = (
+  jira: Jira,
+  issues: string[],
+  issueDetails: { [issue: string]: JiraIssue | null },
+) => {
+  if (!issues.length) {
+    return ['No Jira issue is linked to this PR.'];
+  }
+  if (jira.summary?.location === 'comment') {
+    return [issues.map((issue) => renderIssueCard(jira, issue, issueDetails[issue])).join('\n\n')];
+  }
+  return issues.map((issue) => jira.describeIssue(issue, issueDetails[issue]));
+};
+
+/**
+ * Keep the summary section of the PR description up to date
+ * @param context a Probot event Context
+ * @param summary the Markdown summary, or empty to remove it
+ */
+const updateDescription = async (context: Context, summary: string) => {
+  const {
+    data: { body },
+  } = await context.octokit.issues.get(context.issue());
+  const stripped = stripSummary(body);
+  const section = summary ? `\n\n${summaryStart}\n${summary}\n${summaryEnd}` : '';
+  // keep the section before the probot metadata, which must stay at the end
+  const metadataIndex = stripped.search(/\n\n<!-- probot = /);
+  const updated =
+    metadataIndex >= 0
+      ? `${stripped.slice(0, metadataIndex)}${section}${stripped.slice(metadataIndex)}`
+      : `${stripped}${section}`;
+  if (updated !== (body || '')) {
+    await context.octokit.issues.update(context.issue({ body: updated }));
+  }
+};
+
+/**
+ * Check whether the Jira issue summary is shown anywhere. It is shown in the sticky status comment,
+ * so isn't shown with `summary.location: comment` when `comments.mode` is `append`.
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ */
+const showsSummary = (context: Context, jira: Jira) => {
+  const location = jira.summary?.location;
+  if (location === 'comment' && !usesStickyComment(context)) {
+    context.log.warn(
+      'The Jira issue summary is not shown, as `summary.location: comment` needs `comments.mode: sticky`',
+    );
+    return false;
+  }
+  return location === 'comment' || location === 'description';
+};
+
+/**
+ * Update the Jira issue summary in the sticky status comment, or PR description, as configured
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param issues the Jira issue keys linked to the PR
+ * @param issueDetails map of the issue keys to their details, as returned by `getIssueDetail`
+ */
+export const updateSummary = async (
+  context: Context,
+  jira: Jira,
+  issues: string[],
+  issueDetails: { [issue: string]: JiraIssue | null },
+) => {
+  if (!usesStickyComment(context) && !showsSummary(context, jira)) {
+    return;
+  }
+  setStickyStatus(context, renderStatus(jira, issues, issueDetails));
+  try {
+    if (jira.summary?.location === 'description') {
+      await updateDescription(
+        context,
+        issues.map((issue) => renderIssueCard(jira, issue, issueDetails[issue])).join('\n\n'),
+      );
+    }
+    await flushStickyComment(context);
+  } catch (err) {
+    context.log.error(`Failed to update the Jira issue summary: ${err.message}`);
+  }
+};
+
+/**
+ * Refresh the Jira issue summary after a PR event, fetching the linked issues
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param linkedIssues the Jira issue keys linked to the PR, if already known
+ */
+export const refreshSummary = async (context: Context, jira: Jira, linkedIssues?: string[]) => {
+  if (!usesStickyComment(context) && jira.summary?.location !== 'description') {
+    return;
+  }
+  const issues = linkedIssues || (await jira.getCachedIssues(context));
+  try {
+    const issueDetails = _.zipObject(
+      issues,
+      await Promise.all(issues.map((issue) => jira.getIssueDetail(context, issue))),
+    );
+    await updateSummary(context, jira, issues, issueDetails);
+  } catch (err) {
+    // keep the previous summary until Jira is available again
+    context.log.error(`Failed to refresh the Jira issue summary: ${err.message}`);
+  }
+};
@@ -0,0 +1,85 @@
+import { Context } from 'probot';
+import _ from 'lodash';
+import type { Jira } from './probotHelpers';
+import { getGroupMembers } from './jiraApi';
+import { TtlCache, ttlFromEnv } from './cache';
+
+/**
+ * The Jira reviewers that a GitHub team maps to, in the `teamMap` config
+ */
+export type TeamMapping = {
+  /** a Jira group, whose members become reviewers */
+  group?: string;
+  /** a Jira username (server) or accountId (cloud), e.g. of the team lead */
+  user?: string;
+};
+
+/**
+ * The reviewers covered by the teams requested to review a PR
+ */
+export type TeamReviewers = {
+  /** the GitHub members of the unmapped teams */
+  logins: string[];
+  /** the Jira user keys of the mapped teams */
+  jiraKeys: string[];
+};
+
+// the members of each GitHub team, by org and team slug
+const teamMembers = new TtlCache<string[]>(ttlFromEnv('JIRA_CACHE_TTL', 60));
+// the members of each Jira group, by Jira instance and group name
+const groupMembers = new TtlCache<string[]>(ttlFromEnv('JIRA_USER_CACHE_TTL', 600));
+
+/**
+ * Get the reviewers covered by the teams requested to review a PR.
+ * Teams in the `teamMap` become the mapped Jira group members or user,
+ * and other teams are expanded to their members on GitHub.
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param teams the `requested_teams` of the PR
+ * @returns a Promise for the GitHub logins and Jira user keys of the team reviewers
+ */
+export const getTeamReviewers = async (
+  context: Context,
+  jira: Jira,
+  teams: { slug: string }[] = [],
+): Promise<TeamReviewers> => {
+  const { owner } = context.repo();
+  const reviewers = await Promise.all(
+    teams.map(async ({ slug }) => {
+      const { group, user }: TeamMapping = jira.teamMap?.[slug] || {};
+      try {
+        if (user) {
+          return { logins: [], jiraKeys: [user] };
+        }
+        if (group) {
+          const jiraKeys = await groupMembers.get(`${jira.cachePrefix}:${group}`, async () =>
+            (await getGroupMembers(jira, group))
+              .map((u) => jira.userKey(u))
+              .filter((k): k is string => !!k),
+          );
+          return { logins: [], jiraKeys };
+        }
+        const logins = await teamMembers.get(`${owner}/${slug}`, async () =>
+          (
+            await context.octokit.paginate(context.octokit.teams.listMembersInOrg, {
+              org: owner,
+              team_slug: slug,
+              per_page: 100,
+            })
+          )
+            .map((m) => m?.login)
+            .filter((l): l is string => !!l),
+        );
+        return { logins, jiraKeys: [] };
+      } catch (err) {
+        // listing team members needs the `members: read` permission
+        context.log.warn(`Failed to get the reviewers of team ${slug}: ${err.message}`);
+        return { logins: [], jiraKeys: [] };
+      }
+    }),
+  );
+  return {
+    logins: _.uniq(reviewers.flatMap((r) => r.logins)),
+    jiraKeys: _.uniq(reviewers.flatMap((r) => r.jiraKeys)),
+  };
+};
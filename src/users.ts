@@ -0,0 +1,263 @@
+import { Context } from 'probot';
+import _ from 'lodash';
+import type { Jira } from './probotHelpers';
+import type { JiraUser } from './jiraApi';
+import { searchUsers } from './jiraApi';
+import { TtlCache, ttlFromEnv } from './cache';
+
+/**
+ * Finds the Jira user for a GitHub user, and back. Each returns null when it can't.
+ */
+export type UserResolver = {
+  /** Get the Jira username (server) or accountId (cloud) for a GitHub login */
+  toJira: (context: Context, jira: Jira, login: string) => Promise<string | null>;
+  /** Get the GitHub login for a Jira user */
+  toGitHub: (context: Context, jira: Jira, jiraUser: JiraUser) => Promise<string | null>;
+};
+
+/**
+ * A map of GitHub logins to Jira users, as in the `userMap` config
+ */
+type UserMap = { [login: string]: string };
+
+const userTtl = ttlFromEnv('JIRA_USER_CACHE_TTL', 600);
+// users resolved by email, by Jira instance and GitHub login or Jira user key
+const jiraByEmail = new TtlCache<string | null>(userTtl);
+const gitHubByEmail = new TtlCache<string | null>(userTtl);
+// the shared user maps of each org
+const orgUserMaps = new TtlCache<UserMap>(ttlFromEnv('JIRA_CACHE_TTL', 60));
+// the users that could not be resolved, by repo, for the `/jira users` report
+const unmappedUsers = new TtlCache<string>(7 * 24 * 3600 * 1000);
+
+const verifiedEmailsQuery = `query ($login: String!, $org: String!) {
+  user(login: $login) {
+    organizationVerifiedDomainEmails(login: $org)
+  }
+}`;
+
+/**
+ * Get the Jira user key for a GitHub login in a user map.
+ * For Jira Cloud, mapped emails are resolved to accountIds.
+ */
+const fromUserMap = async (context: Context, jira: Jira, map: UserMap, login: string) => {
+  const mapped = map[login];
+  if (!mapped || !jira.cloud || !mapped.includes('@')) {
+    return mapped || null;
+  }
+  return jira.userKey(await jira.findUser(context, mapped)) || null;
+};
+
+/**
+ * Reverse lookup of the GitHub login for a Jira user in a user map
+ */
+const toUserMap = (jira: Jira, map: UserMap, jiraUser: JiraUser) => {
+  const keys = [jira.userKey(jiraUser), jiraUser.emailAddress].filter((k) => !!k);
+  return Object.entries(map).find(([, j]) => keys.includes(j))?.[0] || null;
+};
+
+/**
+ * Get the emails of a GitHub user: their public email, and their verified emails in the repo's org
+ * @param context a Probot event Context
+ * @param login the GitHub login
+ */
+const getGitHubEmails = async (context: Context, login: string) => {
+  const emails: string[] = [];
+  const { data: user } = await context.octokit.users.getByUsername({ username: login });
+  if (user.email) {
+    emails.push(user.email);
+  }
+  const { repository } = context.payload as any;
+  if (repository?.owner?.type === 'Organization') {
+    try {
+      const { user: orgUser } = await context.octokit.graphql<any>(verifiedEmailsQuery, {
+        login,
+        org: repository.owner.login,
+      });
+      emails.push(...(orgUser?.organizationVerifiedDomainEmails || []));
+    } catch (err) {
+      // only visible to apps with the `members: read` permission
+      context.log.debug(`Failed to get verified emails of ${login}: ${err.message}`);
+    }
+  }
+  return _.uniq(emails.map((e) => e.toLowerCase()));
+};
+
+/**
+ * Read the user map shared by the repos of an org, from its `.github` repo
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ */
+const getOrgUserMap = (context: Context, jira: Jira) => {
+  const { owner } = context.repo();
+  return orgUserMaps.get(`${owner}/${jira.users.orgFile}`, async () => {
+    const { config } = await context.octokit.config.get<{ users?: UserMap }>({
+      owner,
+      repo: '.github',
+      path: jira.users.orgFile,
+    });
+    return config.users || {};
+  });
+};
+
+/**
+ * The user resolvers by name, as listed in the `users.resolvers` config.
+ * Other resolvers can be added, e.g. by a wrapping Probot app.
+ */
+export const userResolvers: { [name: string]: UserResolver } = {
+  // the `userMap` config of the repo
+  map: {
+    toJira: async (context, jira, login) => fromUserMap(context, jira, jira.userMap, login),
+    toGitHub: async (_context, jira, jiraUser) => toUserMap(jira, jira.userMap, jiraUser),
+  },
+  // the emails of the GitHub user, matched with Jira's user search
+  email: {
+    toJira: async (context, jira, login) =>
+      jiraByEmail.get(`${jira.cachePrefix}:${login}`, async () => {
+        for (const email of await getGitHubEmails(context, login)) {
+          const users = await searchUsers(jira, email);
+          if (users.length === 1) {
+            return jira.userKey(users[0]) || null;
+          }
+        }
+        return null;
+      }),
+    toGitHub: async (context, jira, jiraUser) => {
+      const email = jiraUser.emailAddress;
+      if (!email) {
+        return null;
+      }
+      return gitHubByEmail.get(`${jira.cachePrefix}:${jira.userKey(jiraUser)}`, async () => {
+        const { data } = await context.octokit.search.users({ q: `${email} in:email` });
+        return data.total_count === 1 ? data.items[0].login : null;
+      });
+    },
+  },
+  // the user map shared by the org, in its `.github` repo
+  org: {
+    toJira: async (context, jira, login) =>
+      fromUserMap(context, jira, await getOrgUserMap(context, jira), login),
+    toGitHub: async (context, jira, jiraUser) =>
+      toUserMap(jira, await getOrgUserMap(context, jira), jiraUser),
+  },
+};
+
+/**
+ * Run the configured resolvers in order, until one finds the user
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param resolve runs a resolver
+ * @param describe describes the user, for logs
+ * @returns a Promise for the first result, or null if none found the user
+ */
+const runResolvers = async (
+  context: Context,
+  jira: Jira,
+  resolve: (resolver: UserResolver) => Promise<string | null>,
+  describe: string,
+) => {
+  for (const name of jira.users.resolvers) {
+    const resolver = userResolvers[name];
+    if (!resolver) {
+      context.log.warn(`Unknown user resolver: ${name}`);
+      continue;
+    }
+    try {
+      const resolved = await resolve(resolver);
+      if (resolved) {
+        return resolved;
+      }
+    } catch (err) {
+      context.log.warn(`Failed to resolve ${describe} with the ${name} resolver: ${err.message}`);
+    }
+  }
+  return null;
+};
+
+/**
+ * Record a user that could not be resolved, for the `/jira users` report
+ */
+const recordUnmapped = (context: Context, kind: 'GitHub' | 'Jira', name: string) => {
+  const { owner, repo } = context.repo();
+  unmappedUsers.set(`${owner}/${repo}:${kind}:${name}`, new Date().toISOString());
+};
+
+/**
+ * Find the Jira user key for a GitHub login, using the configured `users.resolvers`
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param login the GitHub username
+ * @returns a Promise for the Jira username (server) or accountId (cloud), or null if not found
+ */
+export const resolveJiraUser = async (context: Context, jira: Jira, login: string) => {
+  const key = await runResolvers(
+    context,
+    jira,
+    (r) => r.toJira(context, jira, login),
+    `GitHub user ${login}`,
+  );
+  if (!key) {
+    recordUnmapped(context, 'GitHub', login);
+  }
+  return key;
+};
+
+/**
+ * Find the GitHub login for a Jira user, using the configured `users.resolvers`
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param jiraUser the Jira user, or its username (server) or accountId (cloud)
+ * @returns a Promise for the GitHub login, or null if not found
+ */
+export const resolveGitHubUser = async (
+  context: Context,
+  jira: Jira,
+  jiraUser: string | JiraUser,
+) => {
+  const user: JiraUser = typeof jiraUser === 'string' ? jira.userRef(jiraUser) : jiraUser;
+  const key = jira.userKey(user);
+  if (!key) {
+    return null;
+  }
+  const login = await runResolvers(
+    context,
+    jira,
+    (r) => r.toGitHub(context, jira, user),
+    `Jira user ${key}`,
+  );
+  if (!login) {
+    recordUnmapped(context, 'Jira', user.displayName ? `${user.displayName} (${key})` : key);
+  }
+  return login;
+};
+
+/**
+ * Report the users that could not be resolved in this repo recently, in Markdown
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @returns the report, or null if all users were resolved
+ */
+export const reportUnmappedUsers = (context: Context, jira: Jira) => {
+  const { owner, repo } = context.repo();
+  const prefix = `${owner}/${repo}:`;
+  const unmapped = unmappedUsers
+    .keys()
+    .filter((k) => k.startsWith(prefix))
+    .map((k) => k.slice(prefix.length).split(':'));
+  if (!unmapped.length) {
+    return null;
+  }
+  const list = (kind: string) =>
+    unmapped
+      .filter(([k]) => k === kind)
+      .map(([, ...name]) => `\`${name.join(':')}\``)
+      .sort()
+      .join(', ');
+  return [
+    'Users that could not be matched between GitHub and Jira:',
+    ...['GitHub', 'Jira']
+      .filter((kind) => unmapped.some(([k]) => k === kind))
+      .map((kind) => `* ${kind}: ${list(kind)}`),
+    '',
+    `Add them to the \`userMap\` in \`.github/jira.yml\`, or to the \`users\` in \`${owner}/.github/${jira.users.orgFile}\`.`,
+  ].join('\n');
+};
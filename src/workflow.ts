@@ -0,0 +1,205 @@
+import { Context } from 'probot';
+import type { Jira } from './probotHelpers';
+import { writeComment } from './probotHelpers';
+import { markdownToAdf } from './adf';
+import { saveComment } from './jiraApi';
+
+/**
+ * The GitHub PR events that workflow rules can be triggered by
+ */
+export type WorkflowEvent =
+  | 'opened'
+  | 'ready_for_review'
+  | 'review_requested'
+  | 'approved'
+  | 'changes_requested'
+  | 'commented'
+  | 'merged'
+  | 'closed'
+  | 'labeled';
+
+/**
+ * Conditions that must all be met for a rule to apply. Lists match if any of the values match.
+ */
+export interface WorkflowConditions {
+  /** Name of the PR base branch, `*` may be used as a wildcard */
+  base?: string | string[];
+  /** Label on the PR (or the label being added, for `labeled` events) */
+  label?: string | string[];
+  /** GitHub login of the PR author */
+  author?: string | string[];
+  /** Whether or not the PR is a draft */
+  draft?: boolean;
+}
+
+/**
+ * An action to perform on the Jira issue. Multiple properties may be combined in one action.
+ */
+export interface WorkflowAction {
+  /** Target status (or transition name) to transition the issue to */
+  transition?: string;
+  /** Resolution to set along with the `transition` */
+  resolution?: string;
+  /** Map of Jira field ids to the values to set */
+  setField?: { [field: string]: any };
+  /** Jira label(s) to add to the issue */
+  addLabel?: string | string[];
+  /** Comment to add to the issue, with `{{number}}`, `{{title}}`, `{{url}}` and `{{user}}` placeholders */
+  comment?: string;
+}
+
+/**
+ * A workflow rule, as read from the `workflow` section of `jira.yml`
+ */
+export interface WorkflowRule {
+  on: WorkflowEvent | WorkflowEvent[];
+  if?: WorkflowConditions;
+  then: WorkflowAction | WorkflowAction[];
+}
+
+const toArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Case insensitive match of a value against a pattern, where `*` is a wildcard
+ */
+export const matchesPattern = (value: string, pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .split('*')
+      .map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+    'i',
+  ).test(value);
+
+/**
+ * Check whether the rule conditions are met by the PR in the current event
+ * @param context a Probot event Context
+ * @param conditions the rule conditions, if any
+ * @returns true if all of the conditions are met
+ */
+export const matchesConditions = (context: Context, conditions?: WorkflowConditions) => {
+  if (!conditions) {
+    return true;
+  }
+  const { pull_request: pr, label: eventLabel } = context.payload as any;
+  const { base, label, author, draft } = conditions;
+  if (base && !toArray(base).some((b) => matchesPattern(pr?.base?.ref || '', b))) {
+    return false;
+  }
+  if (label) {
+    const prLabels: string[] = eventLabel
+      ? [eventLabel.name]
+      : (pr?.labels || []).map((l: any) => l.name);
+    if (!toArray(label).some((l) => prLabels.some((p) => matchesPattern(p, l)))) {
+      return false;
+    }
+  }
+  if (author && !toArray(author).some((a) => a.toLowerCase() === pr?.user?.login?.toLowerCase())) {
+    return false;
+  }
+  if (draft !== undefined && !!pr?.draft !== draft) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Find the configured workflow rules that apply to the current event
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param event the workflow event name
+ * @returns the list of matching rules
+ */
+export const getWorkflowRules = (context: Context, jira: Jira, event: WorkflowEvent) =>
+  toArray(jira.workflow).filter(
+    (rule) => toArray(rule.on).includes(event) && matchesConditions(context, rule.if),
+  );
+
+/**
+ * Fill in PR details for the supported placeholders in a comment template
+ */
+const renderTemplate = (context: Context, template: string) => {
+  const pr = (context.payload as any).pull_request || {};
+  const values: { [key: string]: string } = {
+    number: `${pr.number ?? ''}`,
+    title: pr.title || '',
+    url: pr.html_url || '',
+    user: pr.user?.login || '',
+  };
+  return template.replace(/{{\s*(\w+)\s*}}/g, (match, key) => values[key] ?? match);
+};
+
+/**
+ * Perform a single workflow action against the Jira issue
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param issue the Jira issue key string
+ * @param action the action to perform
+ */
+export const runAction = async (
+  context: Context,
+  jira: Jira,
+  issue: string,
+  action: WorkflowAction,
+) => {
+  const { transition, resolution, setField, addLabel, comment } = action;
+  if (transition) {
+    await jira.transitionIssue(
+      context,
+      issue,
+      transition,
+      resolution ? { resolution: { name: resolution } } : undefined,
+    );
+  }
+  const labels = toArray(addLabel);
+  if (setField || labels.length) {
+    try {
+      await jira.fetch(`issue/${issue}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          ...(setField ? { fields: setField } : {}),
+          ...(labels.length ? { update: { labels: labels.map((add) => ({ add })) } } : {}),
+        }),
+      });
+    } catch (err) {
+      context.log.error(`Failed to update Jira issue fields: ${err.message}`);
+      await writeComment(
+        context,
+        `Warning: failed to update fields for ${jira.issueLinkMd(issue)}, please update manually.`,
+      );
+    }
+  }
+  if (comment) {
+    const text = renderTemplate(context, comment);
+    try {
+      await saveComment(jira, issue, jira.cloud ? markdownToAdf(text) : text);
+    } catch (err) {
+      context.log.error(`Failed to add Jira comment: ${err.message}`);
+    }
+  }
+};
+
+/**
+ * Evaluate the configured workflow rules for an event, and perform the actions of all that apply
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param event the workflow event name
+ * @param issue the Jira issue key string
+ */
+export const runWorkflow = async (
+  context: Context,
+  jira: Jira,
+  event: WorkflowEvent,
+  issue: string,
+) => {
+  const rules = getWorkflowRules(context, jira, event);
+  if (rules.length) {
+    context.log.debug(`Running ${rules.length} workflow rule(s) for '${event}' on ${issue}`);
+  }
+  for (const rule of rules) {
+    for (const action of toArray(rule.then)) {
+      await runAction(context, jira, issue, action);
+    }
+  }
+};
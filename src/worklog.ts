@@ -0,0 +1,144 @@
+import { Context } from 'probot';
+import type { Jira } from './probotHelpers';
+import { writeComment } from './probotHelpers';
+
+/**
+ * Matches a `/log 1h 30m` line in a review body, with a Jira duration
+ */
+const logRegex = /^\s*\/log[ \t]+((?:\d+(?:\.\d+)?[wdhm][ \t]*)+)$/m;
+
+/**
+ * Parse the time to log from a `/log` line of a review body
+ * @param body the review body
+ * @returns the Jira duration, e.g. `1h 30m`, or null if there is none
+ */
+export const parseLogTime = (body?: string | null) =>
+  (body || '').match(logRegex)?.[1].trim() || null;
+
+/**
+ * Format a number of seconds as a Jira duration, in hours and minutes
+ */
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return [
+    Math.floor(minutes / 60) && `${Math.floor(minutes / 60)}h`,
+    minutes % 60 && `${minutes % 60}m`,
+  ]
+    .filter((part) => !!part)
+    .join(' ');
+};
+
+/**
+ * Log the work on each linked issue, and comment with the issues that were updated
+ * @param context a Probot event Context
+ * @param jira the Jira API helper
+ * @param issues the Jira issue keys linked to the PR
+ * @param worklog the worklog to add to each issue
+ * @param description what the time was spent on, for the PR comment
+ */
+const logWork = async (
+  context: Context,
+  jira: Jira,
+  issues: string[],
+  worklog: { timeSpent: string | number; comment: string; started?: Date },
+  description: string,
+) => {
+  const logged: string[] = [];
+  for (const issue of issues) {
+    if (await jira.addWorklog(context, issue, worklog)) {
+      logged.push(issue);
+    }
+  }
+  if (logged.length) {
+    const time =
+      typeof worklog.timeSpent === 'number' ? formatDuration(worklog.timeSpent) : worklog.timeSpent;
+    await writeComment(
+      context,
+      `Logged \`${time}\` of ${description} on ${logged
+        .map((i) => jira.issueLinkMd(i))
+        .join(', ')}`,
+    );
+  }
+};
+
+/**
+ * When a PR is merged, log the time from when it was opened as development time.
+ * Does nothing unless `worklog.enabled` and `worklog.development` are set in the config.
+ * @param context a Probot `pull_request.closed` event Context
+ * @param jira the Jira API helper
+ * @param issues the Jira issue keys linked to the PR
+ */
+export const logDevelopmentTime = async (context: Context, jira: Jira, issues: string[]) => {
+  const { number, user, created_at, merged_at } = (context.payload as any).pull_request;
+  if (!jira.worklog?.enabled || !jira.worklog.development || !merged_at) {
+    return;
+  }
+  const started = new Date(created_at);
+  // Jira rejects worklogs under a minute
+  const seconds = Math.max(
+    60,
+    Math.round((new Date(merged_at).getTime() - started.getTime()) / 60000) * 60,
+  );
+  await logWork(
+    context,
+    jira,
+    issues,
+    {
+      timeSpent: seconds,
+      comment: `Development of GitHub PR #${number} by @${user.login}, from opened to merged`,
+      started,
+    },
+    'development time',
+  );
+};
+
+// the review states that log the configured `worklog.review` time, unlike the comment
+// reviews that GitHub creates for each reply in a review thread
+const loggedReviewStates = ['approved', 'changes_requested'];
+
+/**
+ * Get the time to log for a submitted review. Reviews by the PR author, e.g. replies to feedback,
+ * log nothing, and comment reviews only log the time given by a `/log` line.
+ * @param jira the Jira API helper
+ * @param review the submitted review
+ * @param author the GitHub login of the PR author
+ * @returns the Jira duration, or null if no time should be logged
+ */
+export const getReviewTime = (
+  jira: Jira,
+  review: { body?: string | null; state: string; user?: { login: string } | null },
+  author?: string,
+) => {
+  if (!jira.worklog?.enabled || (author && review.user?.login === author)) {
+    return null;
+  }
+  return (
+    parseLogTime(review.body) ||
+    (loggedReviewStates.includes(review.state.toLowerCase()) && jira.worklog.review) ||
+    null
+  );
+};
+
+/**
+ * When a PR is approved or changes are requested, log the time given by a `/log` line in the
+ * review body, or else the configured `worklog.review` time. Other reviews only log a `/log` line.
+ * Does nothing unless `worklog.enabled` is set in the config.
+ * @param context a Probot `pull_request_review.submitted` event Context
+ * @param jira the Jira API helper
+ * @param issues the Jira issue keys linked to the PR
+ */
+export const logReviewTime = async (context: Context, jira: Jira, issues: string[]) => {
+  const { review, pull_request: pr } = context.payload as any;
+  const timeSpent = getReviewTime(jira, review, pr.user?.login);
+  if (!timeSpent) {
+    return;
+  }
+  const state = review.state.replace(/_/g, ' ');
+  await logWork(
+    context,
+    jira,
+    issues,
+    { timeSpent, comment: `Review of GitHub PR #${pr.number} by @${review.user.login}: ${state}` },
+    `review time by ${review.user.login}`,
+  );
+};
@@ -0,0 +1,214 @@
+import { markdownToAdf, adfToText, findMentions } from '../src/adf';
+
+describe('markdownToAdf', () => {
+  test('converts headings, paragraphs and inline marks', () => {
+    expect(
+      markdownToAdf('# Title\n\nSome **bold**, _em_, ~~old~~ and `a < b` [link](https://x.io)'),
+    ).toEqual({
+      version: 1,
+      type: 'doc',
+      content: [
+        { type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text: 'Title' }] },
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'Some ' },
+            { type: 'text', text: 'bold', marks: [{ type: 'strong' }] },
+            { type: 'text', text: ', ' },
+            { type: 'text', text: 'em', marks: [{ type: 'em' }] },
+            { type: 'text', text: ', ' },
+            { type: 'text', text: 'old', marks: [{ type: 'strike' }] },
+            { type: 'text', text: ' and ' },
+            { type: 'text', text: 'a < b', marks: [{ type: 'code' }] },
+            { type: 'text', text: ' ' },
+            {
+              type: 'text',
+              text: 'link',
+              marks: [{ type: 'link', attrs: { href: 'https://x.io' } }],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  test('converts code blocks with their language', () => {
+    expect(markdownToAdf('```ts\nconst a = 1;\n```').content).toEqual([
+      {
+        type: 'codeBlock',
+        attrs: { language: 'ts' },
+        content: [{ type: 'text', text: 'const a = 1;' }],
+      },
+    ]);
+  });
+
+  test('converts nested and ordered lists', () => {
+    expect(markdownToAdf('3. one\n   - a\n   - b\n4. two').content).toEqual([
+      {
+        type: 'orderedList',
+        attrs: { order: 3 },
+        content: [
+          {
+            type: 'listItem',
+            content: [
+              { type: 'paragraph', content: [{ type: 'text', text: 'one' }] },
+              {
+                type: 'bulletList',
+                content: [
+                  {
+                    type: 'listItem',
+                    content: [{ type: 'paragraph', content: [{ type: 'text', text: 'a' }] }],
+                  },
+                  {
+                    type: 'listItem',
+                    content: [{ type: 'paragraph', content: [{ type: 'text', text: 'b' }] }],
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            type: 'listItem',
+            content: [{ type: 'paragraph', content: [{ type: 'text', text: 'two' }] }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('converts task lists', () => {
+    expect(markdownToAdf('- [x] done\n- [ ] todo').content).toEqual([
+      {
+        type: 'taskList',
+        attrs: { localId: '1' },
+        content: [
+          {
+            type: 'taskItem',
+            attrs: { localId: '2', state: 'DONE' },
+            content: [{ type: 'text', text: 'done' }],
+          },
+          {
+            type: 'taskItem',
+            attrs: { localId: '3', state: 'TODO' },
+            content: [{ type: 'text', text: 'todo' }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('converts tables', () => {
+    expect(markdownToAdf('| A | B |\n| - | - |\n| 1 | **2** |').content).toEqual([
+      {
+        type: 'table',
+        content: [
+          {
+            type: 'tableRow',
+            content: [
+              {
+                type: 'tableHeader',
+                content: [{ type: 'paragraph', content: [{ type: 'text', text: 'A' }] }],
+              },
+              {
+                type: 'tableHeader',
+                content: [{ type: 'paragraph', content: [{ type: 'text', text: 'B' }] }],
+              },
+            ],
+          },
+          {
+            type: 'tableRow',
+            content: [
+              {
+                type: 'tableCell',
+                content: [{ type: 'paragraph', content: [{ type: 'text', text: '1' }] }],
+              },
+              {
+                type: 'tableCell',
+                content: [
+                  {
+                    type: 'paragraph',
+                    content: [{ type: 'text', text: '2', marks: [{ type: 'strong' }] }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('converts images, blockquotes and rules, and drops comments', () => {
+    expect(
+      markdownToAdf('<!-- template -->\n\n![screenshot](https://x.io/a.png)\n\n> quoted\n\n---')
+        .content,
+    ).toEqual([
+      {
+        type: 'mediaSingle',
+        attrs: { layout: 'center' },
+        content: [
+          {
+            type: 'media',
+            attrs: { type: 'external', url: 'https://x.io/a.png', alt: 'screenshot' },
+          },
+        ],
+      },
+      {
+        type: 'blockquote',
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'quoted' }] }],
+      },
+      { type: 'rule' },
+    ]);
+  });
+
+  test('flattens the blocks that a blockquote cannot hold', () => {
+    expect(
+      markdownToAdf('> ## quoted `heading`\n>\n> > nested\n>\n> ---\n>\n> - [ ] task').content,
+    ).toEqual([
+      {
+        type: 'blockquote',
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'text', text: 'quoted ', marks: [{ type: 'strong' }] },
+              { type: 'text', text: 'heading', marks: [{ type: 'code' }] },
+            ],
+          },
+          { type: 'paragraph', content: [{ type: 'text', text: 'nested' }] },
+          { type: 'paragraph', content: [{ type: 'text', text: 'task' }] },
+        ],
+      },
+    ]);
+  });
+
+  test('converts mapped @mentions, but not emails', () => {
+    const input = 'Thanks @ghUser and @other, cc me@example.com';
+    expect(findMentions(input)).toEqual(['ghUser', 'other']);
+    expect(markdownToAdf(input, { mentions: { ghUser: 'abc123' } }).content).toEqual([
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Thanks ' },
+          { type: 'mention', attrs: { id: 'abc123', text: '@ghUser' } },
+          { type: 'text', text: ' and @other, cc ' },
+          {
+            type: 'text',
+            text: 'me@example.com',
+            marks: [{ type: 'link', attrs: { href: 'mailto:me@example.com' } }],
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('adfToText', () => {
+  test('extracts the plain text', () => {
+    expect(
+      adfToText(
+        markdownToAdf('# Title\n\n- one\n- [two](https://x.io)\n\nhi @a', { mentions: { a: '1' } }),
+      ),
+    ).toBe('Title\none\ntwo\nhi @a\n');
+  });
+});
@@ -0,0 +1,108 @@
+import { TtlCache, clearCaches, coalesce, serialize, ttlFromEnv } from '../src/cache';
+
+describe('TtlCache', () => {
+  beforeEach(() => {
+    clearCaches();
+  });
+
+  test('shares loads while in flight, until the entry expires', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const cache = new TtlCache<number>(1000);
+    let loads = 0;
+    const load = jest.fn(async () => ++loads);
+
+    expect(await Promise.all([cache.get('a', load), cache.get('a', load)])).toEqual([1, 1]);
+    now.mockReturnValue(999);
+    expect(await cache.get('a', load)).toBe(1);
+    now.mockReturnValue(1000);
+    expect(await cache.get('a', load)).toBe(2);
+    cache.delete('a');
+    expect(await cache.get('a', load)).toBe(3);
+    expect(load).toHaveBeenCalledTimes(3);
+    now.mockRestore();
+  });
+
+  test('does not cache failed loads', async () => {
+    const cache = new TtlCache<string>(1000);
+    await expect(cache.get('a', async () => Promise.reject(new Error('down')))).rejects.toThrow(
+      'down',
+    );
+    expect(await cache.get('a', async () => 'up')).toBe('up');
+  });
+
+  test('drops the oldest entries beyond the maximum size', async () => {
+    const cache = new TtlCache<string>(1000, 2);
+    await cache.get('a', async () => 'a1');
+    await cache.get('b', async () => 'b1');
+    await cache.get('c', async () => 'c1');
+    expect(await cache.get('a', async () => 'a2')).toBe('a2');
+    expect(await cache.get('c', async () => 'c2')).toBe('c1');
+  });
+
+  test('caches nothing with a TTL of 0, and is emptied by clearCaches', async () => {
+    const uncached = new TtlCache<string>(0);
+    await uncached.get('a', async () => 'a1');
+    expect(await uncached.get('a', async () => 'a2')).toBe('a2');
+
+    const cache = new TtlCache<string>(1000);
+    await cache.get('a', async () => 'a1');
+    clearCaches();
+    expect(await cache.get('a', async () => 'a2')).toBe('a2');
+  });
+
+  test('reads the TTL from the environment, in seconds', () => {
+    process.env.TEST_CACHE_TTL = '5';
+    expect(ttlFromEnv('TEST_CACHE_TTL', 60)).toBe(5000);
+    process.env.TEST_CACHE_TTL = '0';
+    expect(ttlFromEnv('TEST_CACHE_TTL', 60)).toBe(0);
+    delete process.env.TEST_CACHE_TTL;
+    expect(ttlFromEnv('TEST_CACHE_TTL', 60)).toBe(60000);
+  });
+});
+
+describe('coalesce', () => {
+  test('makes only the last call of a burst, resolving every call', async () => {
+    const calls: string[] = [];
+    const run = (name: string) => async () => {
+      calls.push(name);
+    };
+    await Promise.all([
+      coalesce('pr', 10, run('first')),
+      coalesce('pr', 10, run('second')),
+      coalesce('other', 10, run('other')),
+    ]);
+    expect(calls).toEqual(['second', 'other']);
+
+    await coalesce('pr', 0, run('third'));
+    expect(calls).toEqual(['second', 'other', 'third']);
+  });
+});
+
+describe('serialize', () => {
+  test('runs calls with the same key one at a time, even after a failure', async () => {
+    const events: string[] = [];
+    const run =
+      (name: string, fail = false) =>
+      async () => {
+        events.push(`start ${name}`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        events.push(`end ${name}`);
+        if (fail) {
+          throw new Error(name);
+        }
+        return name;
+      };
+    const results = await Promise.allSettled([
+      serialize('pr', run('first', true)),
+      serialize('pr', run('second')),
+      serialize('other', run('other')),
+    ]);
+    expect(results.map((r) => (r.status === 'fulfilled' ? r.value : r.reason.message))).toEqual([
+      'first',
+      'second',
+      'other',
+    ]);
+    expect(events.indexOf('start second')).toBeGreaterThan(events.indexOf('end first'));
+    expect(events.indexOf('start other')).toBeLessThan(events.indexOf('end first'));
+  });
+});
@@ -0,0 +1,159 @@
+import nock from 'nock';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+import {
+  resolveCredentials,
+  resolveWebhookCredentials,
+  getAuthorization,
+  hostEnvPrefix,
+} from '../src/credentials';
+
+describe('Jira credentials', () => {
+  const env = process.env;
+  let tmpDir: string;
+  let credentialsFile: string;
+
+  beforeEach(async () => {
+    nock.disableNetConnect();
+    process.env = { ...env };
+    delete process.env.JIRA_USER;
+    delete process.env.JIRA_PASS;
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jira-credentials-'));
+    credentialsFile = path.join(tmpDir, 'credentials.json');
+    await fs.writeJson(credentialsFile, {
+      installations: {
+        2: { token: 'installation-pat' },
+      },
+      hosts: {
+        'jira.example.com': { username: 'hostUser', password: 'hostPass' },
+        'example.atlassian.net': {
+          clientId: 'client',
+          clientSecret: 'secret',
+          refreshToken: 'refresh1',
+          cloudId: 'cloud123',
+        },
+      },
+    });
+  });
+
+  test('prefers the credentials file, by installation then by host', async () => {
+    process.env.JIRA_CREDENTIALS_FILE = credentialsFile;
+    expect(await resolveCredentials({ host: 'jira.example.com', installationId: 2 })).toEqual({
+      credentials: { token: 'installation-pat' },
+      source: 'installations.2',
+    });
+    expect(await resolveCredentials({ host: 'jira.example.com', installationId: 3 })).toEqual({
+      credentials: { username: 'hostUser', password: 'hostPass' },
+      source: 'hosts.jira.example.com',
+    });
+  });
+
+  test('falls back to host specific, then global environment variables', async () => {
+    expect(hostEnvPrefix('jira.example.com')).toBe('JIRA_JIRA_EXAMPLE_COM');
+    process.env.JIRA_JIRA_EXAMPLE_COM_TOKEN = 'host-pat';
+    process.env.JIRA_USER = 'globalUser';
+    process.env.JIRA_PASS = 'globalPass';
+    expect(await resolveCredentials({ host: 'jira.example.com' })).toEqual({
+      credentials: { token: 'host-pat' },
+      source: 'JIRA_JIRA_EXAMPLE_COM',
+    });
+    expect(await resolveCredentials({ host: 'other.example.com' })).toEqual({
+      credentials: { username: 'globalUser', password: 'globalPass' },
+      source: 'JIRA',
+    });
+  });
+
+  test('only trusts known hosts for webhooks, never using the global credentials for others', async () => {
+    process.env.JIRA_CREDENTIALS_FILE = credentialsFile;
+    process.env.JIRA_USER = 'globalUser';
+    process.env.JIRA_PASS = 'globalPass';
+    expect(await resolveWebhookCredentials('jira.example.com')).toEqual({
+      credentials: { username: 'hostUser', password: 'hostPass' },
+      source: 'hosts.jira.example.com',
+    });
+    expect(await resolveWebhookCredentials('attacker.example')).toBeNull();
+
+    process.env.JIRA_WEBHOOK_HOSTS = 'jira.mycompany.com, jira.other.com';
+    expect(await resolveWebhookCredentials('jira.other.com')).toEqual({
+      credentials: { username: 'globalUser', password: 'globalPass' },
+      source: 'JIRA',
+    });
+  });
+
+  test('uses the account email and API token for Jira Cloud', async () => {
+    process.env.JIRA_EMAIL = 'bot@example.com';
+    process.env.JIRA_API_TOKEN = 'api-token';
+    const { credentials, source } = await resolveCredentials({
+      host: 'example.atlassian.net',
+      cloud: true,
+    });
+    expect(await getAuthorization(credentials, source)).toBe(
+      `Basic ${Buffer.from('bot@example.com:api-token').toString('base64')}`,
+    );
+  });
+
+  test('sends personal access tokens as Bearer tokens', async () => {
+    expect(await getAuthorization({ token: 'pat' }, 'JIRA')).toBe('Bearer pat');
+  });
+
+  test('refreshes OAuth tokens, and saves the rotated refresh token', async () => {
+    process.env.JIRA_CREDENTIALS_FILE = credentialsFile;
+    const mock = nock('https://auth.atlassian.com')
+      .post('/oauth/token', {
+        grant_type: 'refresh_token',
+        client_id: 'client',
+        client_secret: 'secret',
+        refresh_token: 'refresh1',
+      })
+      .once()
+      .reply(200, { access_token: 'access1', refresh_token: 'refresh2', expires_in: 3600 });
+
+    const { credentials, source } = await resolveCredentials({ host: 'example.atlassian.net' });
+    expect(await getAuthorization(credentials, source)).toBe('Bearer access1');
+    // the token is reused until it expires
+    expect(await getAuthorization(credentials, source)).toBe('Bearer access1');
+
+    const saved = await fs.readJson(credentialsFile);
+    expect(saved.hosts['example.atlassian.net']).toMatchObject({
+      accessToken: 'access1',
+      refreshToken: 'refresh2',
+    });
+    expect(mock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('shares one OAuth refresh between concurrent requests', async () => {
+    process.env.JIRA_CREDENTIALS_FILE = credentialsFile;
+    const mock = nock('https://auth.atlassian.com')
+      .post('/oauth/token', (body: any) => body.client_id === 'client2')
+      .once()
+      .reply(200, { access_token: 'access2', refresh_token: 'refresh3', expires_in: 3600 });
+
+    const credentials = {
+      clientId: 'client2',
+      clientSecret: 'secret',
+      refreshToken: 'refresh1',
+      cloudId: 'cloud123',
+    };
+    const source = 'hosts.example.atlassian.net';
+    expect(
+      await Promise.all([
+        getAuthorization(credentials, source),
+        getAuthorization(credentials, source),
+        getAuthorization(credentials, source),
+      ]),
+    ).toEqual(['Bearer access2', 'Bearer access2', 'Bearer access2']);
+
+    const saved = await fs.readJson(credentialsFile);
+    expect(saved.hosts['example.atlassian.net']).toMatchObject({ refreshToken: 'refresh3' });
+    expect(mock.pendingMocks()).toStrictEqual([]);
+  });
+
+  afterEach(async () => {
+    process.env = env;
+    await fs.remove(tmpDir);
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+});
@@ -2,19 +2,27 @@
 // import index from '../src/index'
 
 import nock from 'nock';
+import pino from 'pino';
 import { Probot, ProbotOctokit } from 'probot';
 import fs from 'fs-extra';
 import path from 'path';
 
 // Requiring our app implementation
 import myProbotApp from '../src';
+import { clearCaches } from '../src/cache';
 // Requiring our fixtures
 import issuesOpenedPayload from './fixtures/issues.opened.json';
 import prOpenedPayload from './fixtures/pull_request.opened.json';
 import prAssignedPayload from './fixtures/pull_request.assigned.json';
+import prClosedPayload from './fixtures/pull_request.closed.json';
+import prReviewSubmittedPayload from './fixtures/pull_request_review.submitted.json';
+import issueCommentPayload from './fixtures/issue_comment.created.json';
+import releasePublishedPayload from './fixtures/release.published.json';
 
 const privateKey = fs.readFileSync(path.join(__dirname, 'fixtures/mock-cert.pem'), 'utf-8');
 const jiraConfig = fs.readFileSync(path.join(__dirname, 'fixtures/jira.yml'), 'utf8');
+// the default config, which uses a sticky status comment
+const stickyConfig = jiraConfig.replace(/  # post each[\s\S]*$/, '');
 
 const accessToken = {
   token: 'test',
@@ -23,22 +31,139 @@ const accessToken = {
   },
 };
 
+/**
+ * Create a Probot with our app loaded
+ * @param log the logger to use instead of the default one
+ */
+const createProbot = (log?: pino.Logger) => {
+  const probot = new Probot({
+    appId: 123,
+    privateKey,
+    log,
+    // disable request throttling and retries for testing
+    Octokit: ProbotOctokit.defaults({
+      retry: { enabled: false },
+      throttle: { enabled: false },
+    }),
+  });
+  // Load our app into probot
+  probot.load(myProbotApp);
+  return probot;
+};
+
 describe('Probot app', () => {
   let probot: Probot;
 
   beforeEach(() => {
     nock.disableNetConnect();
-    probot = new Probot({
-      appId: 123,
-      privateKey,
-      // disable request throttling and retries for testing
-      Octokit: ProbotOctokit.defaults({
-        retry: { enabled: false },
-        throttle: { enabled: false },
-      }),
+    clearCaches();
+    probot = createProbot();
+  });
+
+  test('creates a Jira issue when an issue is opened', async (done) => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  issues:\n    issueTypes:\n      bug: Bug\n`)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '' })
+      // Handle metadata write
+      .patch('/repos/testuser/test-repo/issues/1', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200)
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200)
+      // Test that the issue is closed
+      .patch('/repos/testuser/test-repo/issues/1', (body: any) => {
+        done(expect(body).toMatchSnapshot());
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // create the issue
+      .post('/rest/api/latest/issue', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(201, { id: '10001', key: 'TEST-12' });
+
+    // Receive a webhook event
+    await probot.receive({ id: '1', name: 'issues', payload: issuesOpenedPayload });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('creates a Jira issue without the reporter when Jira rejects it', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  userMap:\n    testuser: jirauser\n`)
+      // Handle metadata read and write
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '' })
+      .patch('/repos/testuser/test-repo/issues/1')
+      .reply(200)
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body.body).toContain('This issue has been moved to Jira');
+        return true;
+      })
+      .reply(200)
+      // Test that the issue is closed
+      .patch('/repos/testuser/test-repo/issues/1', { state: 'closed' })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // the reporter is not on the create screen
+      .post('/rest/api/latest/issue', (body: any) => {
+        expect(body.fields.reporter).toEqual({ name: 'jirauser' });
+        return true;
+      })
+      .reply(400, {
+        errorMessages: [],
+        errors: { reporter: "Field 'reporter' cannot be set. It is not on the appropriate screen" },
+      })
+      // create the issue again, without the reporter
+      .post('/rest/api/latest/issue', (body: any) => {
+        expect(body.fields).not.toHaveProperty('reporter');
+        return true;
+      })
+      .reply(201, { id: '10001', key: 'TEST-12' });
+
+    await probot.receive({ id: '1', name: 'issues', payload: issuesOpenedPayload });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('ignores issues opened by bots', async () => {
+    // nothing is requested, not even the config
+    const unmatched: string[] = [];
+    const onNoMatch = (req: any) => unmatched.push(`${req.method} ${req.path}`);
+    nock.emitter.on('no match', onNoMatch);
+    await probot.receive({
+      id: '1',
+      name: 'issues',
+      payload: { ...issuesOpenedPayload, sender: { login: 'renovate[bot]', type: 'Bot' } } as any,
     });
-    // Load our app into probot
-    probot.load(myProbotApp);
+    nock.emitter.removeListener('no match', onNoMatch);
+
+    expect(unmatched).toStrictEqual([]);
   });
 
   test('creates a comment when an issue is opened', async (done) => {
@@ -48,7 +173,7 @@ describe('Probot app', () => {
       .reply(200, accessToken)
       // Handle config read
       .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
-      .reply(200, jiraConfig)
+      .reply(200, `${jiraConfig}  issues:\n    create: false\n`)
 
       // Test that a comment is posted
       .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
@@ -89,6 +214,9 @@ describe('Probot app', () => {
       .reply(200);
 
     const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }])
       // get the issue details
       .get('/rest/api/latest/issue/TEST-7')
       .reply(200, { id: 'jira123' })
@@ -115,6 +243,129 @@ describe('Probot app', () => {
     expect(jiraMock.pendingMocks()).toStrictEqual([]);
   });
 
+  test('links every issue when a PR is created with multiple issues', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, jiraConfig)
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '' })
+      // Handle metadata write
+      .patch('/repos/testuser/test-repo/issues/1', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }]);
+    ['TEST-7', 'TEST-8'].forEach((key) =>
+      jiraMock
+        // get the issue details
+        .get(`/rest/api/latest/issue/${key}`)
+        .reply(200, { id: key })
+        // get the existing links
+        .get(`/rest/api/latest/issue/${key}/remotelink`)
+        .reply(200, [])
+        // create a new link
+        .post(`/rest/api/latest/issue/${key}/remotelink`)
+        .reply(200, { id: 'link1' })
+        // create a new comment
+        .post(`/rest/api/latest/issue/${key}/comment`)
+        .reply(200, { id: 'comment1' }),
+    );
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prOpenedPayload,
+        pull_request: {
+          ...prOpenedPayload.pull_request,
+          title: '[TEST-7, test-8]: Create foo',
+        },
+      },
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('detects issue from the configured sources when not in the title', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  detection: [title, branch, body, commits]\n`)
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '' })
+      // Handle metadata write
+      .patch('/repos/testuser/test-repo/issues/1', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }])
+      // get the issue details
+      .get('/rest/api/latest/issue/TEST-7')
+      .reply(200, { id: 'jira123' })
+      // get the existing links
+      .get('/rest/api/latest/issue/TEST-7/remotelink')
+      .reply(200, [])
+      // create a new link
+      .post('/rest/api/latest/issue/TEST-7/remotelink', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200, { id: 'link1' })
+      // create a new comment
+      .post('/rest/api/latest/issue/TEST-7/comment')
+      .reply(200, { id: 'comment1' });
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prOpenedPayload,
+        pull_request: {
+          ...prOpenedPayload.pull_request,
+          title: 'Create foo',
+          body: 'Some changes.\n\nFixes test-7',
+        },
+      },
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
   test('creates a not found comment when a PR is created with invalid issue', async (done) => {
     const mock = nock('https://api.github.com')
       // Test that we correctly return a test token
@@ -141,6 +392,9 @@ describe('Probot app', () => {
       .reply(200);
 
     const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }])
       // get the issue details
       .get('/rest/api/latest/issue/TEST-99')
       .reply(404);
@@ -162,6 +416,37 @@ describe('Probot app', () => {
     expect(jiraMock.pendingMocks()).toStrictEqual([]);
   });
 
+  test('creates a warning comment when Jira rejects the credentials', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, jiraConfig)
+
+      // Test that the warning says why, rather than that the issue wasn't found
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }])
+      // get the issue details
+      .get('/rest/api/latest/issue/TEST-7')
+      .reply(401, { errorMessages: ['Unauthorized'] });
+
+    // Receive a webhook event
+    await probot.receive({ id: '1', name: 'pull_request', payload: prOpenedPayload });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
   test('creates a warning comment if PR created with no issue specified', async (done) => {
     const mock = nock('https://api.github.com')
       // Test that we correctly return a test token
@@ -186,6 +471,11 @@ describe('Probot app', () => {
       })
       .reply(200);
 
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }]);
+
     // Receive a webhook event
     await probot.receive({
       id: '1',
@@ -200,51 +490,1838 @@ describe('Probot app', () => {
     });
 
     expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
   });
 
-  test('when PR assigned, updates Jira assignee', async (done) => {
+  test('lists valid prefixes in warning when matching any Jira project', async (done) => {
     const mock = nock('https://api.github.com')
       // Test that we correctly return a test token
       .post('/app/installations/2/access_tokens')
       .reply(200, accessToken)
-      // Handle metadata read
-      .get('/repos/testuser/test-repo/issues/1')
-      .reply(200, { body: prAssignedPayload.pull_request.body })
       // Handle config read
       .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
-      .reply(200, jiraConfig)
+      .reply(200, `${jiraConfig}  projectKeys: ['*']\n`)
       // Test that a comment is posted
       .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '' })
+      // Handle metadata write
+      .patch('/repos/testuser/test-repo/issues/1', (body: any) => {
         done(expect(body).toMatchSnapshot());
         return true;
       })
       .reply(200);
 
     const jiraMock = nock('https://fake-jira')
-      // attempt user lookup
-      .get('/rest/api/latest/user?username=testuser')
-      .reply(404)
-      // search for the user
-      .get('/rest/api/latest/user/search?query=testuser&username=testuser')
-      .reply(200, [{ accountId: 'jiraAccount123', displayName: 'Mr. Test User' }])
-      // set the assignee
-      .put('/rest/api/latest/issue/TEST-1/assignee', (body: any) => {
-        expect(body).toMatchSnapshot();
-        return true;
-      })
-      .reply(204);
+      // list the projects, only once
+      .get('/rest/api/latest/project')
+      .reply(200, [
+        { id: '1', key: 'TEST' },
+        { id: '2', key: 'OTHER' },
+        { id: '3', key: 'THIRD' },
+      ]);
 
     // Receive a webhook event
     await probot.receive({
       id: '1',
       name: 'pull_request',
-      payload: prAssignedPayload,
+      payload: {
+        ...prOpenedPayload,
+        pull_request: {
+          ...prOpenedPayload.pull_request,
+          title: 'UTF-8: Fix encoding',
+        },
+      },
     });
 
     expect(mock.pendingMocks()).toStrictEqual([]);
     expect(jiraMock.pendingMocks()).toStrictEqual([]);
   });
 
+  test('warns once about configured project keys that Jira does not know', async () => {
+    const warnings: string[] = [];
+    probot = createProbot(
+      pino({ level: 'warn' }, { write: (line: string) => warnings.push(JSON.parse(line).msg) }),
+    );
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read, once for both events
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  projectKeys: [OTHER]\n`)
+      // Handle the warning comment, and the metadata read and write, for each event
+      .post('/repos/testuser/test-repo/issues/1/comments')
+      .times(2)
+      .reply(200)
+      .get('/repos/testuser/test-repo/issues/1')
+      .times(2)
+      .reply(200, { body: '' })
+      .patch('/repos/testuser/test-repo/issues/1')
+      .times(2)
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // list the projects, only once
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }]);
+
+    const payload = {
+      ...prOpenedPayload,
+      pull_request: { ...prOpenedPayload.pull_request, title: 'No issue' },
+    };
+    await probot.receive({ id: '1', name: 'pull_request', payload });
+    await probot.receive({ id: '2', name: 'pull_request', payload });
+
+    expect(warnings.filter((w) => w.includes('project keys'))).toStrictEqual([
+      'Configured Jira project keys not found in Jira: OTHER',
+    ]);
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR assigned, updates Jira assignee', async (done) => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prAssignedPayload.pull_request.body })
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, jiraConfig)
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        done(expect(body).toMatchSnapshot());
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // attempt user lookup
+      .get('/rest/api/latest/user?username=testuser')
+      .reply(404)
+      // search for the user
+      .get('/rest/api/latest/user/search?query=testuser&username=testuser')
+      .reply(200, [{ name: 'jirauser123', displayName: 'Mr. Test User' }])
+      // set the assignee
+      .put('/rest/api/latest/issue/TEST-1/assignee', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(204);
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: prAssignedPayload,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR assigned and the Jira user lookup fails, describes the error', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prAssignedPayload.pull_request.body })
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, jiraConfig)
+      // Test that the failure is described
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body.body).toContain(
+          "failed to update assignee for [TEST-1](https://fake-jira/browse/TEST-1) as the bot's Jira user does not have permission",
+        );
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // attempt user lookup, without falling back to a search
+      .get('/rest/api/latest/user?username=testuser')
+      .reply(403);
+
+    await probot.receive({ id: '1', name: 'pull_request', payload: prAssignedPayload });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when reviewers are requested in a burst, updates the Jira reviewers once', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read, once for both events
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(
+        200,
+        `${jiraConfig}  fields:\n    reviewers: customfield_100\n  userMap:\n    alice: jalice\n    bob: jbob\n`,
+      )
+      // Handle metadata read, for each event
+      .get('/repos/testuser/test-repo/issues/1')
+      .times(2)
+      .reply(200, { body: '\n\n<!-- probot = {"2":{"jira-issue":["TEST-7"]}} -->' });
+
+    const jiraMock = nock('https://fake-jira')
+      // set the reviewers of the last event
+      .put('/rest/api/latest/issue/TEST-7', (body: any) => {
+        expect(body).toEqual({
+          fields: { customfield_100: [{ name: 'jalice' }, { name: 'jbob' }] },
+        });
+        return true;
+      })
+      .reply(204);
+
+    const reviewRequested = (logins: string[]) => ({
+      id: '1',
+      name: 'pull_request' as const,
+      payload: {
+        ...prOpenedPayload,
+        action: 'review_requested',
+        pull_request: {
+          ...prOpenedPayload.pull_request,
+          requested_reviewers: logins.map((login) => ({ login })),
+        },
+      } as any,
+    });
+    // Receive a webhook event for each requested reviewer
+    await Promise.all([
+      probot.receive(reviewRequested(['alice'])),
+      probot.receive(reviewRequested(['alice', 'bob'])),
+    ]);
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when teams are requested to review, sets their members as Jira reviewers', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(
+        200,
+        `${jiraConfig}  fields:\n    reviewers: customfield_100\n  userMap:\n    alice: jalice\n    bob: jbob\n  teamMap:\n    qa: { group: qa-team }\n    leads: { user: jlead }\n`,
+      )
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '\n\n<!-- probot = {"2":{"jira-issue":["TEST-7"]}} -->' })
+      // Expand the unmapped team to its members, except the PR author
+      .get('/orgs/testuser/teams/devs/members?per_page=100')
+      .reply(200, [{ login: 'alice' }, { login: 'testuser' }]);
+
+    const jiraMock = nock('https://fake-jira')
+      // get the members of the mapped group
+      .get('/rest/api/latest/group/member?groupname=qa-team&startAt=0')
+      .reply(200, { values: [{ name: 'jqa' }], isLast: true })
+      .put('/rest/api/latest/issue/TEST-7', (body: any) => {
+        expect(body).toEqual({
+          fields: {
+            customfield_100: [
+              { name: 'jbob' },
+              { name: 'jalice' },
+              { name: 'jqa' },
+              { name: 'jlead' },
+            ],
+          },
+        });
+        return true;
+      })
+      .reply(204);
+
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prOpenedPayload,
+        action: 'review_requested',
+        pull_request: {
+          ...prOpenedPayload.pull_request,
+          requested_reviewers: [{ login: 'bob' }],
+          requested_teams: [{ slug: 'devs' }, { slug: 'qa' }, { slug: 'leads' }],
+        },
+      } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR edited, keeps the issues linked with /jira link', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, jiraConfig)
+      // Handle metadata read, with TEST-8 linked by a command
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, {
+        body: '\n\n<!-- probot = {"2":{"jira-issue":["TEST-7","TEST-8"],"jira-linked":["TEST-8"]}} -->',
+      });
+
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }]);
+    ['TEST-7', 'TEST-8'].forEach((key) =>
+      jiraMock
+        .get(`/rest/api/latest/issue/${key}`)
+        .reply(200, { key, fields: {} })
+        // update the Jira comment, but not the links
+        .post(`/rest/api/latest/issue/${key}/comment`)
+        .reply(201, { id: 'comment1' }),
+    );
+
+    // nothing else is requested, e.g. removing the TEST-8 link or rewriting the metadata
+    const unmatched: string[] = [];
+    const onNoMatch = (req: any) => unmatched.push(`${req.method} ${req.path}`);
+    nock.emitter.on('no match', onNoMatch);
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: { ...prOpenedPayload, action: 'edited', changes: { body: { from: '' } } } as any,
+    });
+    nock.emitter.removeListener('no match', onNoMatch);
+
+    expect(unmatched).toStrictEqual([]);
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR edited by the bot, ignores the edit', async () => {
+    const mock = nock('https://api.github.com')
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken);
+
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prOpenedPayload,
+        action: 'edited',
+        // the bot only writes the metadata and the summary section
+        changes: {
+          body: { from: 'New PR\n\n<!-- probot = {"2":{"jira-issue":["TEST-1"]}} -->' },
+        },
+        pull_request: {
+          ...prOpenedPayload.pull_request,
+          body: 'New PR\n\n<!-- jira-summary -->\nTEST-1\n<!-- /jira-summary -->\n\n<!-- probot = {"2":{"jira-issue":["TEST-1"]}} -->',
+        },
+        sender: { login: 'jira-workflow-gitbot[bot]', type: 'Bot' },
+      } as any,
+    });
+
+    // not even the config is read
+    expect(mock.isDone()).toBe(false);
+  });
+
+  test('when PR edited by another bot, handles the edit', async () => {
+    const mock = nock('https://api.github.com')
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read, without a Jira host to stop there
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, 'jira:\n  projectKey: TEST\n');
+
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prOpenedPayload,
+        action: 'edited',
+        changes: { body: { from: '' } },
+        sender: { login: 'renovate[bot]', type: 'Bot' },
+      } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR edited, does not request reviews from Jira reviewers covered by a team', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(
+        200,
+        `${jiraConfig}  fields:\n    reviewers: customfield_100\n  userMap:\n    alice: jalice\n    bob: jbob\n    carol: jcarol\n  teamMap:\n    leads: { user: jcarol }\n`,
+      )
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '\n\n<!-- probot = {"2":{"jira-issue":["TEST-7"]}} -->' })
+      // Expand the unmapped team to its members
+      .get('/orgs/testuser/teams/devs/members?per_page=100')
+      .reply(200, [{ login: 'alice' }])
+      // Only request a review from the Jira reviewer that no team covers
+      .post('/repos/testuser/test-repo/pulls/1/requested_reviewers', (body: any) => {
+        expect(body).toEqual({ reviewers: ['bob'] });
+        return true;
+      })
+      .reply(201);
+
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }])
+      .get('/rest/api/latest/issue/TEST-7')
+      .reply(200, {
+        key: 'TEST-7',
+        fields: {
+          customfield_100: [{ name: 'jalice' }, { name: 'jbob' }, { name: 'jcarol' }],
+        },
+      })
+      .post('/rest/api/latest/issue/TEST-7/comment')
+      .reply(201, { id: 'comment1' });
+
+    // the Jira reviewers are already up to date, so they aren't written
+    const unmatched: string[] = [];
+    const onNoMatch = (req: any) => unmatched.push(`${req.method} ${req.path}`);
+    nock.emitter.on('no match', onNoMatch);
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prOpenedPayload,
+        action: 'edited',
+        changes: { body: { from: '' } },
+        pull_request: {
+          ...prOpenedPayload.pull_request,
+          requested_teams: [{ slug: 'devs' }, { slug: 'leads' }],
+        },
+      } as any,
+    });
+    nock.emitter.removeListener('no match', onNoMatch);
+
+    expect(unmatched).toStrictEqual([]);
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR review requests changes, transitions Jira issue', async (done) => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  transitions:\n    changes_requested: In Progress\n`)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prReviewSubmittedPayload.pull_request.body })
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        done(expect(body).toMatchSnapshot());
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // get the current status
+      .get('/rest/api/latest/issue/TEST-1?fields=status')
+      .reply(200, { fields: { status: { name: 'In Review' } } })
+      // get the available transitions
+      .get('/rest/api/latest/issue/TEST-1/transitions?expand=transitions.fields')
+      .reply(200, {
+        transitions: [
+          { id: '11', name: 'Approve', to: { name: 'Done' } },
+          { id: '21', name: 'Reject', to: { name: 'In Progress' } },
+        ],
+      })
+      // apply the transition
+      .post('/rest/api/latest/issue/TEST-1/transitions', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(204);
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request_review',
+      payload: prReviewSubmittedPayload,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR merged, resolves Jira issue', async (done) => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  transitions:\n    merged: Resolved\n  resolution: Fixed\n`)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prClosedPayload.pull_request.body })
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        done(expect(body).toMatchSnapshot());
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // get the current status
+      .get('/rest/api/latest/issue/TEST-1?fields=status')
+      .reply(200, { fields: { status: { name: 'In Review' } } })
+      // get the available transitions
+      .get('/rest/api/latest/issue/TEST-1/transitions?expand=transitions.fields')
+      .reply(200, {
+        transitions: [
+          { id: '11', name: 'Resolve Issue', to: { name: 'Resolved' } },
+          { id: '21', name: 'Reject', to: { name: 'In Progress' } },
+        ],
+      })
+      // apply the transition
+      .post('/rest/api/latest/issue/TEST-1/transitions', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(204);
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: prClosedPayload,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR closed without merge, unlinks Jira issue', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  unlinkOnClose: true\n`)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prClosedPayload.pull_request.body });
+
+    const jiraMock = nock('https://fake-jira')
+      // get the existing links
+      .get('/rest/api/latest/issue/TEST-1/remotelink')
+      .reply(200, [
+        {
+          self: 'https://fake-jira/rest/api/latest/issue/TEST-1/remotelink/100',
+          object: { url: prClosedPayload.pull_request.html_url },
+        },
+      ])
+      // delete the link
+      .delete('/rest/api/latest/issue/TEST-1/remotelink/100')
+      .reply(204);
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prClosedPayload,
+        pull_request: {
+          ...prClosedPayload.pull_request,
+          merged: false,
+          merged_at: null,
+        },
+      },
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR merged with worklogs enabled, logs the development time', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  worklog:\n    enabled: true\n`)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prClosedPayload.pull_request.body })
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      .post('/rest/api/latest/issue/TEST-1/worklog', (body: any) => {
+        expect(body).toEqual({
+          timeSpentSeconds: 367200,
+          comment: 'Development of GitHub PR #1 by @testuser, from opened to merged',
+          started: '2021-02-05T04:11:36.000+0000',
+        });
+        return true;
+      })
+      .reply(201, { id: 'worklog1' });
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: prClosedPayload,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR review has a /log line, logs the review time', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  worklog:\n    enabled: true\n    review: 15m\n`)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prReviewSubmittedPayload.pull_request.body })
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      .post('/rest/api/latest/issue/TEST-1/worklog', (body: any) => {
+        expect(body).toEqual({
+          timeSpent: '1h 15m',
+          comment: 'Review of GitHub PR #1 by @testuser2: changes requested',
+        });
+        return true;
+      })
+      .reply(201, { id: 'worklog1' });
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request_review',
+      payload: {
+        ...prReviewSubmittedPayload,
+        review: {
+          ...prReviewSubmittedPayload.review,
+          user: { ...prReviewSubmittedPayload.review.user, login: 'testuser2' },
+          body: 'Needs some work\n/log 1h 15m',
+        },
+      },
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR review is a comment, or by the PR author, logs no review time', async () => {
+    const mock = nock('https://api.github.com')
+      .persist()
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  worklog:\n    enabled: true\n    review: 15m\n`);
+
+    // nothing else is requested, e.g. logging work in Jira
+    const unmatched: string[] = [];
+    const onNoMatch = (req: any) => unmatched.push(`${req.method} ${req.path}`);
+    nock.emitter.on('no match', onNoMatch);
+    // a reply in a review thread
+    await probot.receive({
+      id: '1',
+      name: 'pull_request_review',
+      payload: {
+        ...prReviewSubmittedPayload,
+        review: {
+          ...prReviewSubmittedPayload.review,
+          user: { ...prReviewSubmittedPayload.review.user, login: 'testuser2' },
+          state: 'commented',
+        },
+      },
+    });
+    // the PR author replying to feedback, even with a /log line
+    await probot.receive({
+      id: '2',
+      name: 'pull_request_review',
+      payload: {
+        ...prReviewSubmittedPayload,
+        review: { ...prReviewSubmittedPayload.review, state: 'commented', body: '/log 1h' },
+      },
+    });
+    nock.emitter.removeListener('no match', onNoMatch);
+    mock.persist(false);
+
+    expect(unmatched).toStrictEqual([]);
+  });
+
+  test('when PR merged into a release branch, sets the Jira fix version', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  releases:\n    enabled: true\n`)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prClosedPayload.pull_request.body })
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // find the version in the project
+      .get('/rest/api/latest/project/TEST/versions')
+      .reply(200, [{ id: '100', name: '1.1' }])
+      // create the version
+      .get('/rest/api/latest/project/TEST')
+      .reply(200, { id: '10000', key: 'TEST' })
+      .post('/rest/api/latest/version', { name: '1.2', projectId: 10000 })
+      .reply(201, { id: '200', name: '1.2', released: false })
+      // add the fix version to the issue
+      .put('/rest/api/latest/issue/TEST-1', {
+        update: { fixVersions: [{ add: { name: '1.2' } }] },
+      })
+      .reply(204);
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prClosedPayload,
+        pull_request: {
+          ...prClosedPayload.pull_request,
+          base: { ...prClosedPayload.pull_request.base, ref: 'release/1.2' },
+        },
+      },
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when a release is published, releases the Jira version with its issues', async () => {
+    // record the error logs, to check that every release step succeeds
+    const errors: string[] = [];
+    probot = createProbot(
+      pino({ level: 'error' }, { write: (line: string) => errors.push(JSON.parse(line).msg) }),
+    );
+    const prBody = (issues: string[]) =>
+      `Some PR\n\n<!-- probot = ${JSON.stringify({ 2: { 'jira-issue': issues } })} -->`;
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  releases:\n    enabled: true\n`)
+      // find the previous release
+      .get('/repos/testuser/test-repo/releases?per_page=100')
+      .reply(200, [
+        releasePublishedPayload.release,
+        { id: 499, tag_name: 'v1.2.0-rc1', draft: true, published_at: null },
+        { id: 400, tag_name: 'v1.1.0', draft: false, published_at: '2021-02-01T10:00:00Z' },
+        { id: 300, tag_name: 'v1.0.0', draft: false, published_at: '2021-01-01T10:00:00Z' },
+      ])
+      // list the commits since the previous release
+      .get('/repos/testuser/test-repo/compare/v1.1.0...v1.2.0')
+      .reply(200, {
+        commits: [
+          { sha: 'abc', commit: { message: 'Create foo (#1)\n\nSome details' } },
+          { sha: 'def', commit: { message: 'Fix bar' } },
+          { sha: 'fed', commit: { message: 'Merge pull request #1 from testuser/foo' } },
+        ],
+      })
+      // get the PR named in the commit messages
+      .get('/repos/testuser/test-repo/pulls/1')
+      .reply(200, { number: 1, merged_at: '2021-02-09T10:11:12Z', body: prBody(['TEST-1']) })
+      // find the PRs of the other commits
+      .get('/repos/testuser/test-repo/commits/def/pulls')
+      .reply(200, [
+        { number: 2, merged_at: '2021-02-10T10:11:12Z', body: prBody(['TEST-2']) },
+        { number: 3, merged_at: null, body: prBody(['TEST-3']) },
+      ])
+      // Test that the release notes are added to the release
+      .patch('/repos/testuser/test-repo/releases/500', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // find the version in the project
+      .get('/rest/api/latest/project/TEST/versions')
+      .reply(200, [{ id: '200', name: '1.2.0', released: false }])
+      // add the fix version to the issues
+      .put('/rest/api/latest/issue/TEST-1', {
+        update: { fixVersions: [{ add: { name: '1.2.0' } }] },
+      })
+      .reply(204)
+      .put('/rest/api/latest/issue/TEST-2', {
+        update: { fixVersions: [{ add: { name: '1.2.0' } }] },
+      })
+      .reply(204)
+      // release the version
+      .put('/rest/api/latest/version/200', { released: true, releaseDate: '2021-03-01' })
+      .reply(200, { id: '200', name: '1.2.0', released: true, releaseDate: '2021-03-01' })
+      // get the issue summaries for the release notes
+      .get('/rest/api/latest/issue/TEST-1')
+      .reply(200, { fields: { summary: 'Create foo' } })
+      .get('/rest/api/latest/issue/TEST-2')
+      .reply(200, { fields: { summary: 'Fix bar' } });
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'release',
+      payload: releasePublishedPayload as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+    expect(errors).toStrictEqual([]);
+  });
+
+  test('when PR labeled, runs matching workflow rules', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(
+        200,
+        `${jiraConfig}  workflow:
+    - on: labeled
+      if:
+        label: needs-*
+      then:
+        - addLabel: qa
+          setField:
+            customfield_100: yes
+        - comment: 'PR #{{number}} needs QA'
+    - on: [labeled, merged]
+      if:
+        base: release/*
+      then:
+        comment: Should not match
+`,
+      )
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prAssignedPayload.pull_request.body });
+
+    const jiraMock = nock('https://fake-jira')
+      // update the fields
+      .put('/rest/api/latest/issue/TEST-1', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(204)
+      // add the comment
+      .post('/rest/api/latest/issue/TEST-1/comment', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200, { id: 'comment1' });
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prAssignedPayload,
+        action: 'labeled',
+        label: { name: 'needs-qa' },
+      } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  const labelMapConfig = `${jiraConfig}  labelMap:
+    bug:
+      label: bug
+    frontend:
+      component: Web UI
+    urgent:
+      label: urgent
+      priority: Highest
+`;
+
+  test('when PR labeled, sets the mapped Jira label and priority', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, labelMapConfig)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prAssignedPayload.pull_request.body })
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      .put('/rest/api/latest/issue/TEST-1', {
+        update: { labels: [{ add: 'urgent' }] },
+        fields: { priority: { name: 'Highest' } },
+      })
+      .reply(204);
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: { ...prAssignedPayload, action: 'labeled', label: { name: 'urgent' } } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR unlabeled, removes the mapped Jira component', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, labelMapConfig)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: prAssignedPayload.pull_request.body })
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      .put('/rest/api/latest/issue/TEST-1', {
+        update: { components: [{ remove: { name: 'Web UI' } }] },
+      })
+      .reply(204);
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: { ...prAssignedPayload, action: 'unlabeled', label: { name: 'frontend' } } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR labeled by the bot, does not sync the label back to Jira', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, labelMapConfig);
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prAssignedPayload,
+        action: 'labeled',
+        label: { name: 'bug' },
+        sender: { login: 'jira-bot[bot]', type: 'Bot' },
+      } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR linked, adds the labels mapped from the Jira issue', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, labelMapConfig)
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments')
+      .reply(200)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '' })
+      // Handle metadata write
+      .patch('/repos/testuser/test-repo/issues/1')
+      .reply(200)
+      // Test that the mapped labels are added
+      .post('/repos/testuser/test-repo/issues/1/labels', ['bug', 'frontend'])
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }])
+      // get the issue details
+      .get('/rest/api/latest/issue/TEST-7')
+      .reply(200, {
+        id: 'jira123',
+        fields: {
+          labels: ['bug', 'backend'],
+          components: [{ name: 'Web UI' }],
+          priority: { name: 'Medium' },
+        },
+      })
+      // get the existing links
+      .get('/rest/api/latest/issue/TEST-7/remotelink')
+      .reply(200, [])
+      // create a new link
+      .post('/rest/api/latest/issue/TEST-7/remotelink')
+      .reply(200, { id: 'link1' })
+      // create a new comment
+      .post('/rest/api/latest/issue/TEST-7/comment')
+      .reply(200, { id: 'comment1' });
+
+    // Receive a webhook event
+    await probot.receive({ id: '1', name: 'pull_request', payload: prOpenedPayload });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('with Jira Cloud, syncs PR using accountIds and ADF', async () => {
+    const cloudConfig = `${jiraConfig}  deployment: cloud\n  userMap:\n    testuser: test@example.com\n`;
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, cloudConfig)
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments')
+      .reply(200)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '' })
+      // Handle metadata write
+      .patch('/repos/testuser/test-repo/issues/1')
+      .reply(200)
+      // Test that the assignee comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // get the issue details
+      .get('/rest/api/3/issue/TEST-7')
+      .reply(200, {
+        id: 'jira123',
+        fields: {
+          comment: {
+            comments: [
+              {
+                id: 'comment1',
+                author: { accountId: 'bot123' },
+                body: {
+                  version: 1,
+                  type: 'doc',
+                  content: [
+                    { type: 'paragraph', content: [{ type: 'text', text: 'Linked to GitHub PR' }] },
+                  ],
+                },
+              },
+            ],
+          },
+        },
+      })
+      // get the existing links
+      .get('/rest/api/3/issue/TEST-7/remotelink')
+      .reply(200, [])
+      // create a new link
+      .post('/rest/api/3/issue/TEST-7/remotelink')
+      .reply(200, { id: 'link1' })
+      // identify the bot user
+      .get('/rest/api/3/myself')
+      .reply(200, { accountId: 'bot123' })
+      // update the existing comment
+      .put('/rest/api/3/issue/TEST-7/comment/comment1', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200, { id: 'comment1' })
+      // attempt user lookup
+      .get('/rest/api/3/user?accountId=test%40example.com')
+      .reply(404)
+      // search for the user
+      .get('/rest/api/3/user/search?query=test%40example.com')
+      .reply(200, [{ accountId: 'jiraAccount123', displayName: 'Mr. Test User' }])
+      // get the resolved user
+      .get('/rest/api/3/user?accountId=jiraAccount123')
+      .reply(200, { accountId: 'jiraAccount123', displayName: 'Mr. Test User' })
+      // set the assignee
+      .put('/rest/api/3/issue/TEST-7/assignee', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(204);
+
+    // Receive a webhook event
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: {
+        ...prOpenedPayload,
+        pull_request: {
+          ...prOpenedPayload.pull_request,
+          assignee: prOpenedPayload.pull_request.user,
+          body: 'New PR with `code`\n\n- one\n- two',
+        },
+      } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR updated, reports a failing check for a disallowed Jira status', async () => {
+    const checksConfig = `${jiraConfig}  checks:\n    enabled: true\n    disallowedStatuses:\n      - Closed\n      - Done\n`;
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, checksConfig)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '\n\n<!-- probot = {"2":{"jira-issue":["TEST-7"]}} -->' })
+      // Test that the check run is created
+      .post('/repos/testuser/test-repo/check-runs', (body: any) => {
+        expect(body).toMatchObject({
+          name: 'Jira',
+          head_sha: prOpenedPayload.pull_request.head.sha,
+          status: 'completed',
+          conclusion: 'failure',
+        });
+        expect(body.output).toMatchSnapshot();
+        return true;
+      })
+      .reply(201);
+
+    const jiraMock = nock('https://fake-jira')
+      // get the issue details
+      .get('/rest/api/latest/issue/TEST-7')
+      .reply(200, { id: 'jira123', fields: { status: { name: 'Done' } } });
+
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: { ...prOpenedPayload, action: 'synchronize' } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR updated without a Jira issue, reports a failing check', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  checks:\n    enabled: true\n    name: Jira issue\n`)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '' })
+      // Test that the check run is created
+      .post('/repos/testuser/test-repo/check-runs', (body: any) => {
+        expect(body).toMatchObject({
+          name: 'Jira issue',
+          conclusion: 'failure',
+          output: { title: 'No Jira issue is associated with this PR' },
+        });
+        return true;
+      })
+      .reply(201);
+
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: { ...prOpenedPayload, action: 'synchronize' } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when PR updated and Jira fails, reports a failing check with the reason', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  checks:\n    enabled: true\n`)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '\n\n<!-- probot = {"2":{"jira-issue":["TEST-7"]}} -->' })
+      // Test that the check run is created
+      .post('/repos/testuser/test-repo/check-runs', (body: any) => {
+        expect(body).toMatchObject({
+          name: 'Jira',
+          conclusion: 'failure',
+          output: { title: "Could not check TEST-7 as Jira rejected the bot's credentials" },
+        });
+        return true;
+      })
+      .reply(201);
+
+    const jiraMock = nock('https://fake-jira')
+      // get the issue details
+      .get('/rest/api/latest/issue/TEST-7')
+      .reply(401, { errorMessages: ['Unauthorized'] });
+
+    await probot.receive({
+      id: '1',
+      name: 'pull_request',
+      payload: { ...prOpenedPayload, action: 'synchronize' } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when /jira link is commented, links the PR to the Jira issue', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, jiraConfig)
+      // Check the commenter's permission
+      .get('/repos/testuser/test-repo/collaborators/testuser2/permission')
+      .reply(200, { permission: 'write' })
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .twice()
+      .reply(200, { body: 'New PR' })
+      // Handle metadata write
+      .patch('/repos/testuser/test-repo/issues/1', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200)
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }])
+      // get the issue details
+      .get('/rest/api/latest/issue/TEST-7')
+      .reply(200, { id: 'jira123' })
+      // get the existing links
+      .get('/rest/api/latest/issue/TEST-7/remotelink')
+      .reply(200, [])
+      // create a new link
+      .post('/rest/api/latest/issue/TEST-7/remotelink', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200, { id: 'link1' });
+
+    await probot.receive({ id: '1', name: 'issue_comment', payload: issueCommentPayload as any });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when /jira link is commented, reports the Jira check again', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  checks:\n    enabled: true\n`)
+      // Check the commenter's permission
+      .get('/repos/testuser/test-repo/collaborators/testuser2/permission')
+      .reply(200, { permission: 'write' })
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .twice()
+      .reply(200, { body: 'New PR' })
+      // Handle metadata write
+      .patch('/repos/testuser/test-repo/issues/1')
+      .reply(200)
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments')
+      .reply(200)
+      // the comment event doesn't include the PR head commit
+      .get('/repos/testuser/test-repo/pulls/1')
+      .reply(200, { number: 1, head: { sha: 'abc123' } })
+      // Test that the check now passes
+      .post('/repos/testuser/test-repo/check-runs', (body: any) => {
+        expect(body).toMatchObject({
+          name: 'Jira',
+          head_sha: 'abc123',
+          conclusion: 'success',
+          output: { title: 'Linked to TEST-7' },
+        });
+        return true;
+      })
+      .reply(201);
+
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }])
+      // get the issue details
+      .get('/rest/api/latest/issue/TEST-7')
+      .twice()
+      .reply(200, { id: 'jira123', fields: { status: { name: 'In Progress' } } })
+      // get the existing links
+      .get('/rest/api/latest/issue/TEST-7/remotelink')
+      .reply(200, [])
+      // create a new link
+      .post('/rest/api/latest/issue/TEST-7/remotelink')
+      .reply(200, { id: 'link1' });
+
+    await probot.receive({ id: '1', name: 'issue_comment', payload: issueCommentPayload as any });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when /jira link is commented with other text, does not send it to Jira', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, jiraConfig)
+      // Check the commenter's permission
+      .get('/repos/testuser/test-repo/collaborators/testuser2/permission')
+      .reply(200, { permission: 'write' })
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: 'New PR' })
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body.body).toBe('No valid Jira issue found in `OTHER-1 ../.. TEST-7/comment`.');
+        return true;
+      })
+      .reply(200);
+
+    // nothing is requested from Jira, e.g. the issue of another project
+    const unmatched: string[] = [];
+    const onNoMatch = (req: any) => unmatched.push(`${req.method} ${req.path}`);
+    nock.emitter.on('no match', onNoMatch);
+    await probot.receive({
+      id: '1',
+      name: 'issue_comment',
+      payload: {
+        ...issueCommentPayload,
+        comment: {
+          ...issueCommentPayload.comment,
+          body: '/jira link OTHER-1 ../.. TEST-7/comment',
+        },
+      } as any,
+    });
+    nock.emitter.removeListener('no match', onNoMatch);
+
+    expect(unmatched).toStrictEqual([]);
+    expect(mock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when /jira log is commented, logs work on the linked Jira issue', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, jiraConfig)
+      // Check the commenter's permission
+      .get('/repos/testuser/test-repo/collaborators/testuser2/permission')
+      .reply(200, { permission: 'admin' })
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '\n\n<!-- probot = {"2":{"jira-issue":["TEST-7"]}} -->' })
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      .post('/rest/api/latest/issue/TEST-7/worklog', (body: any) => {
+        expect(body).toEqual({ timeSpent: '1h 30m', comment: 'Code review' });
+        return true;
+      })
+      .reply(201, { id: 'worklog1' });
+
+    await probot.receive({
+      id: '1',
+      name: 'issue_comment',
+      payload: {
+        ...issueCommentPayload,
+        comment: { ...issueCommentPayload.comment, body: 'Done\n/jira log "1h 30m" Code review' },
+      } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when /jira users is commented, matches users by email and the org user map', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, jiraConfig)
+      // Check the commenter's permission
+      .get('/repos/testuser/test-repo/collaborators/testuser2/permission')
+      .reply(200, { permission: 'write' })
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: '\n\n<!-- probot = {"2":{"jira-issue":["TEST-7"]}} -->' })
+      // Get the public emails of the users
+      .get('/users/testuser')
+      .reply(200, { login: 'testuser', email: 'Test@example.com' })
+      .get('/users/testuser3')
+      .reply(200, { login: 'testuser3', email: null })
+      .get('/users/testuser4')
+      .reply(200, { login: 'testuser4', email: null })
+      // Read the org user map, once
+      .get('/repos/testuser/.github/contents/.github%2Fjira-users.yml')
+      .reply(200, 'users:\n  testuser3: jirauser3\n')
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      .get('/rest/api/latest/user/search?query=test%40example.com&username=test%40example.com')
+      .reply(200, [{ name: 'jirauser', emailAddress: 'test@example.com' }]);
+
+    await probot.receive({
+      id: '1',
+      name: 'issue_comment',
+      payload: {
+        ...issueCommentPayload,
+        issue: {
+          ...issueCommentPayload.issue,
+          assignees: [{ login: 'testuser3' }, { login: 'testuser4' }],
+        },
+        comment: { ...issueCommentPayload.comment, body: '/jira users' },
+      } as any,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('when /jira is commented without write permission, refuses the command', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, jiraConfig)
+      // Check the commenter's permission
+      .get('/repos/testuser/test-repo/collaborators/testuser2/permission')
+      .reply(200, { permission: 'read' })
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    await probot.receive({ id: '1', name: 'issue_comment', payload: issueCommentPayload as any });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('with sticky comments, writes a status comment when a PR is linked', async () => {
+    let stickyBody = '';
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, stickyConfig)
+      // Handle sticky comment metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: 'New PR' })
+      // Test that the status comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        stickyBody = body.body;
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(201, { id: 55 })
+      // Handle sticky comment metadata write, of only its id
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: 'New PR' })
+      .patch('/repos/testuser/test-repo/issues/1', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200)
+      // Handle issue metadata write
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: 'New PR' })
+      .patch('/repos/testuser/test-repo/issues/1')
+      .reply(200)
+      // Read the status comment back, which is already up to date
+      .get('/repos/testuser/test-repo/issues/comments/55')
+      .reply(200, () => ({ id: 55, body: stickyBody }));
+
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }])
+      // get the issue details
+      .get('/rest/api/latest/issue/TEST-7')
+      .reply(200, {
+        id: 'jira123',
+        fields: {
+          summary: 'Create foo',
+          issuetype: { name: 'Story' },
+          priority: { name: 'High' },
+          status: { name: 'In Progress' },
+          fixVersions: [{ name: '1.2' }],
+          parent: { key: 'TEST-1' },
+          assignee: { name: 'testuser', displayName: 'Test User' },
+          description: 'h3. Goal\nMake *foo* work with {{bar}}',
+        },
+      })
+      // get the existing links
+      .get('/rest/api/latest/issue/TEST-7/remotelink')
+      .reply(200, [])
+      // create a new link
+      .post('/rest/api/latest/issue/TEST-7/remotelink')
+      .reply(200, { id: 'link1' })
+      // create a new comment
+      .post('/rest/api/latest/issue/TEST-7/comment')
+      .reply(200, { id: 'comment1' });
+
+    await probot.receive({ id: '1', name: 'pull_request', payload: prOpenedPayload });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('with sticky comments, updates the existing status comment', async () => {
+    const savedMetadata = { 2: { 'jira-issue': ['TEST-1'], 'jira-comment': { id: 55 } } };
+    const body = `PR body\n\n<!-- probot = ${JSON.stringify(savedMetadata)} -->`;
+    let stickyBody = [
+      '<!-- jira-workflow-gitbot -->',
+      '**Jira**\n- [TEST-1](https://fake-jira/browse/TEST-1): `In Review`',
+      '**Latest updates**',
+      '<!-- jira-update -->\nSuccessfully linked this PR to Jira: [TEST-1](https://fake-jira/browse/TEST-1)',
+    ].join('\n\n');
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${stickyConfig}  transitions:\n    changes_requested: In Progress\n`)
+      // Handle metadata reads
+      .get('/repos/testuser/test-repo/issues/1')
+      .twice()
+      .reply(200, { body })
+      // Read the status comment, before each update
+      .get('/repos/testuser/test-repo/issues/comments/55')
+      .twice()
+      .reply(200, () => ({ id: 55, body: stickyBody }))
+      // Test that the status comment is updated
+      .patch('/repos/testuser/test-repo/issues/comments/55', (body: any) => {
+        stickyBody = body.body;
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200, { id: 55 })
+      // Test that the status comment is refreshed with the new issue status, keeping the updates
+      .patch('/repos/testuser/test-repo/issues/comments/55', (body: any) => {
+        expect(body.body).toContain('| Bug | - | In Progress | - |');
+        expect(body.body).toContain('Successfully linked this PR to Jira');
+        return true;
+      })
+      .reply(200, { id: 55 });
+
+    const jiraMock = nock('https://fake-jira')
+      // get the current status
+      .get('/rest/api/latest/issue/TEST-1?fields=status')
+      .reply(200, { fields: { status: { name: 'In Review' } } })
+      // get the available transitions
+      .get('/rest/api/latest/issue/TEST-1/transitions?expand=transitions.fields')
+      .reply(200, { transitions: [{ id: '21', name: 'Reject', to: { name: 'In Progress' } }] })
+      // apply the transition
+      .post('/rest/api/latest/issue/TEST-1/transitions')
+      .reply(204)
+      // refresh the issue summary
+      .get('/rest/api/latest/issue/TEST-1')
+      .reply(200, { fields: { issuetype: { name: 'Bug' }, status: { name: 'In Progress' } } });
+
+    await probot.receive({
+      id: '1',
+      name: 'pull_request_review',
+      payload: prReviewSubmittedPayload,
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('with sticky comments, /jira unlink updates the status in the status comment', async () => {
+    let prBody = `PR body\n\n<!-- probot = ${JSON.stringify({
+      2: { 'jira-issue': ['TEST-1'], 'jira-comment': { id: 55 } },
+    })} -->`;
+    let stickyBody = [
+      '<!-- jira-workflow-gitbot -->',
+      '**Jira**\n- [TEST-1](https://fake-jira/browse/TEST-1): `In Review`',
+    ].join('\n\n');
+    const reads = nock('https://api.github.com')
+      .persist()
+      // Handle metadata reads
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, () => ({ body: prBody }))
+      // Read the status comment, before each update
+      .get('/repos/testuser/test-repo/issues/comments/55')
+      .reply(200, () => ({ id: 55, body: stickyBody }));
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, stickyConfig)
+      // Check the commenter's permission
+      .get('/repos/testuser/test-repo/collaborators/testuser2/permission')
+      .reply(200, { permission: 'write' })
+      // Handle metadata write
+      .patch('/repos/testuser/test-repo/issues/1', (body: any) => {
+        prBody = body.body;
+        return true;
+      })
+      .reply(200)
+      // Test that the status comment is updated with the command's reply
+      .patch('/repos/testuser/test-repo/issues/comments/55', (body: any) => {
+        stickyBody = body.body;
+        expect(body.body).toContain('Unlinked this PR from Jira');
+        return true;
+      })
+      .reply(200, { id: 55 })
+      // Test that the status comment no longer shows the unlinked issue
+      .patch('/repos/testuser/test-repo/issues/comments/55', (body: any) => {
+        stickyBody = body.body;
+        expect(body.body).toContain('**Jira**\nNo Jira issue is linked to this PR.');
+        expect(body.body).toContain('Unlinked this PR from Jira');
+        return true;
+      })
+      .reply(200, { id: 55 });
+
+    const jiraMock = nock('https://fake-jira')
+      // find the link to remove
+      .get('/rest/api/latest/issue/TEST-1/remotelink')
+      .reply(200, [
+        {
+          self: 'https://fake-jira/rest/api/latest/issue/TEST-1/remotelink/100',
+          object: { url: issueCommentPayload.issue.html_url },
+        },
+      ])
+      .delete('/rest/api/latest/issue/TEST-1/remotelink/100')
+      .reply(204);
+
+    await probot.receive({
+      id: '1',
+      name: 'issue_comment',
+      payload: {
+        ...issueCommentPayload,
+        comment: { ...issueCommentPayload.comment, body: '/jira unlink' },
+      } as any,
+    });
+    reads.persist(false);
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('with sticky comments, concurrent events share one status comment', async () => {
+    let prBody = '\n\n<!-- probot = {"2":{"jira-issue":["TEST-7"]}} -->';
+    let stickyBody = '';
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, stickyConfig)
+      // Check the commenter's permission, for each event
+      .get('/repos/testuser/test-repo/collaborators/testuser2/permission')
+      .twice()
+      .reply(200, { permission: 'write' })
+      // Handle the sticky comment metadata write
+      .patch('/repos/testuser/test-repo/issues/1', (body: any) => {
+        prBody = body.body;
+        return true;
+      })
+      .reply(200)
+      // Test that the status comment is posted once, then updated by the other event
+      .post('/repos/testuser/test-repo/issues/1/comments', (body: any) => {
+        stickyBody = body.body;
+        return true;
+      })
+      .reply(201, { id: 55 })
+      .patch('/repos/testuser/test-repo/issues/comments/55', (body: any) => {
+        stickyBody = body.body;
+        return true;
+      })
+      .reply(200, { id: 55 });
+
+    // Handle metadata and status comment reads, with the latest bodies
+    nock('https://api.github.com')
+      .persist()
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, () => ({ body: prBody }))
+      .get('/repos/testuser/test-repo/issues/comments/55')
+      .reply(200, () => ({ id: 55, body: stickyBody }));
+
+    const jiraMock = nock('https://fake-jira')
+      .get('/rest/api/latest/issue/TEST-7')
+      .reply(200, { key: 'TEST-7', fields: { status: { name: 'In Progress' } } });
+
+    const status = {
+      id: '1',
+      name: 'issue_comment' as const,
+      payload: {
+        ...issueCommentPayload,
+        comment: { ...issueCommentPayload.comment, body: '/jira status' },
+      } as any,
+    };
+    await Promise.all([probot.receive(status), probot.receive(status)]);
+
+    expect(stickyBody.split('<!-- jira-update -->')).toHaveLength(3);
+    expect(prBody).toContain('"jira-comment":{"id":55}');
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+    nock.cleanAll();
+  });
+
+  test('with the summary in the description, adds the Jira issue card to the PR', async () => {
+    const mock = nock('https://api.github.com')
+      // Test that we correctly return a test token
+      .post('/app/installations/2/access_tokens')
+      .reply(200, accessToken)
+      // Handle config read
+      .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+      .reply(200, `${jiraConfig}  summary:\n    location: description\n`)
+      // Test that a comment is posted
+      .post('/repos/testuser/test-repo/issues/1/comments')
+      .reply(200)
+      // Handle metadata read
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: 'New PR' })
+      // Handle metadata write
+      .patch('/repos/testuser/test-repo/issues/1')
+      .reply(200)
+      // Test that the summary is added to the description, before the metadata
+      .get('/repos/testuser/test-repo/issues/1')
+      .reply(200, { body: 'New PR\n\n<!-- probot = {"2":{"jira-issue":["TEST-7"]}} -->' })
+      .patch('/repos/testuser/test-repo/issues/1', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(200);
+
+    const jiraMock = nock('https://fake-jira')
+      // check the configured project keys
+      .get('/rest/api/latest/project')
+      .reply(200, [{ id: '1', key: 'TEST' }])
+      // get the issue details
+      .get('/rest/api/latest/issue/TEST-7')
+      .reply(200, {
+        id: 'jira123',
+        fields: { summary: 'Create foo', issuetype: { name: 'Task' }, status: { name: 'Open' } },
+      })
+      // get the existing links
+      .get('/rest/api/latest/issue/TEST-7/remotelink')
+      .reply(200, [])
+      // create a new link
+      .post('/rest/api/latest/issue/TEST-7/remotelink')
+      .reply(200, { id: 'link1' })
+      // create a new comment
+      .post('/rest/api/latest/issue/TEST-7/comment')
+      .reply(200, { id: 'comment1' });
+
+    await probot.receive({ id: '1', name: 'pull_request', payload: prOpenedPayload });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
   afterEach(() => {
     nock.cleanAll();
     nock.enableNetConnect();
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import { jiraToMarkdown, markdownToJira } from '../src/j2m';
+
+const fixturesDir = path.join(__dirname, 'fixtures/markdownToJira');
+
+describe('markdownToJira', () => {
+  // each `<name>.md` fixture is converted and compared with `<name>.jira`
+  test.each(fs.readdirSync(fixturesDir).filter((f) => f.endsWith('.md')))('%s', (fixture) => {
+    const markdown = fs.readFileSync(path.join(fixturesDir, fixture), 'utf8');
+    const jira = fs.readFileSync(path.join(fixturesDir, fixture.replace(/\.md$/, '.jira')), 'utf8');
+    expect(markdownToJira(markdown)).toBe(jira.trimEnd());
+  });
+
+  test('handles empty input', () => {
+    expect(markdownToJira('')).toBe('');
+  });
+});
+
+describe('jiraToMarkdown', () => {
+  test('converts headings and inline formatting', () => {
+    expect(jiraToMarkdown('h1. Title\nh3. Sub\n*bold*, _em_, -old- and +new+ with {{a < b}}')).toBe(
+      '# Title\n### Sub\n**bold**, *em*, ~~old~~ and <ins>new</ins> with `a < b`',
+    );
+  });
+
+  test('converts code and noformat blocks, without formatting their content', () => {
+    expect(jiraToMarkdown('{code:java}\nint *a* = 1;\n{code}\n{noformat}\n_raw_\n{noformat}')).toBe(
+      '```java\nint *a* = 1;\n```\n```\n_raw_\n```',
+    );
+    expect(jiraToMarkdown('{code:title=Foo.java|borderStyle=solid}\nfoo();\n{code}')).toBe(
+      '```\nfoo();\n```',
+    );
+  });
+
+  test('converts quotes and panels', () => {
+    expect(jiraToMarkdown('{quote}\nfirst\n\nsecond\n{quote}')).toBe('> first\n>\n> second');
+    expect(jiraToMarkdown('bq. short quote')).toBe('> short quote');
+    expect(jiraToMarkdown('{panel:title=Note|borderStyle=dashed}\n*Careful*\n{panel}')).toBe(
+      '> **Note**\n>\n> **Careful**',
+    );
+    expect(jiraToMarkdown('{quote}\n{code}\na();\n{code}\n{quote}')).toBe('> ```\n> a();\n> ```');
+  });
+
+  test('converts tables, adding a header row when missing', () => {
+    expect(jiraToMarkdown('||Name||Value||\n|a|1|\n|b|2|')).toBe(
+      '|Name|Value|\n|---|---|\n|a|1|\n|b|2|',
+    );
+    expect(jiraToMarkdown('text\n\n|a|1|\n|b|2|')).toBe('text\n\n| | |\n|---|---|\n|a|1|\n|b|2|');
+  });
+
+  test('converts links and images, keeping URLs intact', () => {
+    expect(
+      jiraToMarkdown(
+        'See [the docs|https://x.io/a_b_c*d*] or [https://y.io/x_y_z] !https://x.io/i.png|width=10!',
+      ),
+    ).toBe('See [the docs](https://x.io/a_b_c*d*) or <https://y.io/x_y_z> ![](https://x.io/i.png)');
+  });
+
+  test('converts mentions of mapped users, leaving other users unlinked', () => {
+    const users = { jira_user: 'ghuser', '5b10ac8d82e05b22cc7d4ef5': 'cloudie' };
+    expect(
+      jiraToMarkdown('[~jira_user], [~accountid:5b10ac8d82e05b22cc7d4ef5] and [~other_user]', {
+        users,
+      }),
+    ).toBe('@ghuser, @cloudie and other_user');
+  });
+
+  test('escapes other @ mentions, keeping emails, links and code', () => {
+    expect(
+      jiraToMarkdown(
+        'hi @octocat and @org/team, mail a@b.io, see [x|https://x.io/@me] {{@code}} [~jira_user]',
+        { users: { jira_user: 'ghuser' } },
+      ),
+    ).toBe(
+      'hi @\u200boctocat and @\u200borg/team, mail a@b.io, see [x](https://x.io/@me) `@code` @ghuser',
+    );
+  });
+
+  test('converts nested lists', () => {
+    expect(jiraToMarkdown('* one\n** one.one\n*** deep\n* two\n# first\n#* bullet\n## sub')).toBe(
+      '- one\n  - one.one\n    - deep\n- two\n1. first\n   - bullet\n   1. sub',
+    );
+  });
+
+  test('converts horizontal rules, without striking them through', () => {
+    expect(jiraToMarkdown('above\n----\nbelow - not -struck-')).toBe(
+      'above\n---\nbelow - not ~~struck~~',
+    );
+  });
+});
+
+describe('round trip with markdownToJira', () => {
+  test.each([
+    'h1. Title',
+    'h2. Sub title',
+    '*bold* and _italic_',
+    'Struck -through- text',
+    'Some {{inline code}} here',
+    '{code:ts}\nconst a = 1;\n{code}',
+    '[a link|https://x.io/page]',
+    '||Name||Value||\n|a|1|',
+    '* item\n* another',
+    '* one\n** nested\n*# numbered',
+  ])('%s', (jira) => {
+    expect(markdownToJira(jiraToMarkdown(jira)).trimEnd()).toBe(jira);
+  });
+
+  test.each([
+    '# Title',
+    '**bold** and *italic*',
+    'Struck ~~through~~ text',
+    'Some `inline code` here',
+    '```ts\nconst a = 1;\n```',
+    '[a link](https://x.io/page)',
+    '|Name|Value|\n|---|---|\n|a|1|',
+  ])('%s', (markdown) => {
+    expect(jiraToMarkdown(markdownToJira(markdown)).trimEnd()).toBe(markdown);
+  });
+});
@@ -0,0 +1,252 @@
+import {
+  getGroupMembers,
+  getIssue,
+  getCustomValues,
+  getProjects,
+  getFields,
+  getProject,
+  getVersions,
+  createVersion,
+  releaseVersion,
+  getTransitions,
+  getUser,
+  searchUsers,
+  parseRemoteLinks,
+  parseWebhook,
+  JiraApi,
+} from '../src/jiraApi';
+import { SchemaError, describeJiraError } from '../src/jiraClient';
+
+/**
+ * A Jira API helper that replies to each route with the given response
+ */
+const mockApi = (cloud: boolean, responses: { [route: string]: any }): JiraApi => ({
+  cloud,
+  fetch: async (route: string) => {
+    if (!(route in responses)) {
+      throw new Error(`Unexpected route ${route}`);
+    }
+    return responses[route];
+  },
+});
+
+describe('Jira API', () => {
+  test('gets an issue, with its comments and user fields', async () => {
+    const issue = {
+      key: 'TEST-1',
+      fields: {
+        summary: 'Create foo',
+        status: { name: 'In Progress' },
+        assignee: { name: 'jirauser', displayName: 'Jira User' },
+        customfield_100: [{ name: 'reviewer' }],
+        comment: { comments: [{ id: '1', author: { name: 'bot' }, body: 'Linked' }] },
+      },
+    };
+    const api = mockApi(false, { 'issue/TEST-1': issue });
+    expect(
+      await getIssue(api, 'TEST-1', { customFields: { reviewers: 'customfield_100' } }),
+    ).toEqual(issue);
+  });
+
+  test('gets the values of the configured custom fields', async () => {
+    const customFields = {
+      reviewers: 'customfield_100',
+      epic: 'customfield_101',
+      sprint: 'customfield_102',
+      acceptanceCriteria: 'customfield_103',
+    };
+    const issue = {
+      key: 'TEST-1',
+      fields: {
+        customfield_100: { name: 'reviewer' },
+        customfield_101: 'TEST-2',
+        customfield_102: [
+          'com.atlassian.greenhopper.service.sprint.Sprint@1[id=1,name=Sprint 1,state=ACTIVE]',
+        ],
+        customfield_103: '* Works with {{bar}}',
+      },
+    };
+    const api = mockApi(false, { 'issue/TEST-1': issue });
+    expect(
+      getCustomValues(api, await getIssue(api, 'TEST-1', { customFields }), customFields),
+    ).toEqual({
+      reviewers: [{ name: 'reviewer' }],
+      epic: 'TEST-2',
+      sprints: ['Sprint 1'],
+      acceptanceCriteria: '* Works with {{bar}}',
+    });
+    expect(getCustomValues(api, { fields: {} }, customFields)).toEqual({
+      reviewers: [],
+      sprints: [],
+    });
+
+    await expect(
+      getIssue(
+        mockApi(true, { 'issue/TEST-1': { fields: { customfield_102: [{ id: 1 }] } } }),
+        'TEST-1',
+        { customFields },
+      ),
+    ).rejects.toThrow('`fields.customfield_102[0].name` should be a string, got undefined');
+    await expect(
+      getIssue(
+        mockApi(false, { 'issue/TEST-1': { fields: { customfield_101: { key: 'TEST-2' } } } }),
+        'TEST-1',
+        { customFields },
+      ),
+    ).rejects.toThrow('`fields.customfield_101` should be a string, got an object');
+  });
+
+  test('gets the fields of an issue, defaulting to none', async () => {
+    const api = mockApi(false, { 'issue/TEST-1?fields=status': { key: 'TEST-1' } });
+    expect(await getIssue(api, 'TEST-1', { fields: ['status'] })).toEqual({
+      key: 'TEST-1',
+      fields: {},
+    });
+  });
+
+  test('rejects users of the other deployment type', async () => {
+    const api = mockApi(true, {
+      'issue/TEST-1': { fields: { assignee: { name: 'jirauser' } } },
+    });
+    const err = await getIssue(api, 'TEST-1').catch((e) => e);
+    expect(err).toBeInstanceOf(SchemaError);
+    expect(err.message).toBe(
+      'Unexpected Jira response from issue/TEST-1: `fields.assignee` should be a Jira Cloud user, with `accountId`, got a Jira Server user',
+    );
+    expect(describeJiraError(err)).toBe('Jira returned an unexpected response');
+
+    await expect(
+      searchUsers(
+        mockApi(false, { 'user/search?query=a&username=a': [{ accountId: '123' }] }),
+        'a',
+      ),
+    ).rejects.toThrow(
+      '`users[0]` should be a Jira Server user, with `name`, got a Jira Cloud user',
+    );
+  });
+
+  test('rejects values of the wrong type', async () => {
+    await expect(
+      getIssue(
+        mockApi(false, { 'issue/TEST-1': { fields: { comment: { comments: {} } } } }),
+        'TEST-1',
+      ),
+    ).rejects.toThrow('`fields.comment.comments` should be an array, got an object');
+    await expect(
+      getIssue(mockApi(false, { 'issue/TEST-1': { fields: { status: 'Done' } } }), 'TEST-1'),
+    ).rejects.toThrow('`fields.status` should be an object, got a string');
+    await expect(
+      getIssue(
+        mockApi(false, { 'issue/TEST-1': { fields: { fixVersions: [{ id: '1' }] } } }),
+        'TEST-1',
+      ),
+    ).rejects.toThrow('`fields.fixVersions[0].name` should be a string, got undefined');
+    await expect(
+      getIssue(mockApi(false, { 'issue/TEST-1': { fields: { parent: 'TEST-2' } } }), 'TEST-1'),
+    ).rejects.toThrow('`fields.parent` should be an object, got a string');
+    await expect(
+      getUser(mockApi(true, { 'user?accountId=a%40b.com': null }), 'a@b.com'),
+    ).rejects.toThrow('`user` should be an object, got null');
+  });
+
+  test('gets the transitions, with the fields on their screens', async () => {
+    const transitions = [
+      {
+        id: '11',
+        name: 'Resolve',
+        to: { name: 'Resolved' },
+        fields: { resolution: { name: 'Resolution', required: true, allowedValues: [] } },
+      },
+    ];
+    const api = mockApi(false, {
+      'issue/TEST-1/transitions?expand=transitions.fields': { transitions },
+    });
+    expect(await getTransitions(api, 'TEST-1')).toEqual(transitions);
+
+    const invalid = mockApi(false, {
+      'issue/TEST-1/transitions?expand=transitions.fields': {
+        transitions: [{ id: 11, name: 'Resolve' }],
+      },
+    });
+    await expect(getTransitions(invalid, 'TEST-1')).rejects.toThrow(
+      '`transitions[0].id` should be a string, got a number',
+    );
+  });
+
+  test('gets the members of a group, across pages', async () => {
+    const api = mockApi(true, {
+      'group/member?groupname=qa%20team&startAt=0': {
+        values: [{ accountId: '1' }, { accountId: '2' }],
+        isLast: false,
+      },
+      'group/member?groupname=qa%20team&startAt=2': { values: [{ accountId: '3' }], isLast: true },
+    });
+    expect(await getGroupMembers(api, 'qa team')).toEqual([
+      { accountId: '1' },
+      { accountId: '2' },
+      { accountId: '3' },
+    ]);
+  });
+
+  test('gets the projects and their versions, and creates and releases versions', async () => {
+    const version = { id: '200', name: '1.2', released: false };
+    const api = mockApi(false, {
+      project: [{ id: '10000', key: 'TEST', name: 'Test' }],
+      'project/TEST': { id: '10000', key: 'TEST' },
+      'project/TEST/versions': [version],
+      version,
+      'version/200': { ...version, released: true, releaseDate: '2021-03-01' },
+    });
+    expect(await getProjects(api)).toEqual([{ id: '10000', key: 'TEST', name: 'Test' }]);
+    expect(await getProject(api, 'TEST')).toEqual({ id: '10000', key: 'TEST' });
+    expect(await getVersions(api, 'TEST')).toEqual([version]);
+    expect(await createVersion(api, '10000', '1.2')).toEqual(version);
+    expect(await releaseVersion(api, '200', '2021-03-01')).toEqual({
+      ...version,
+      released: true,
+      releaseDate: '2021-03-01',
+    });
+
+    await expect(
+      getVersions(mockApi(false, { 'project/TEST/versions': [{ id: 200, name: '1.2' }] }), 'TEST'),
+    ).rejects.toThrow('`versions[0].id` should be a string, got a number');
+    await expect(
+      releaseVersion(mockApi(false, { 'version/200': null }), '200', ''),
+    ).rejects.toThrow('`version` should be an object, got null');
+  });
+
+  test('gets the fields', async () => {
+    const fields = [{ id: 'customfield_100', name: 'Reviewers', custom: true }];
+    expect(await getFields(mockApi(false, { field: fields }))).toEqual(fields);
+    await expect(getFields(mockApi(false, { field: [{ id: 'summary' }] }))).rejects.toThrow(
+      '`fields[0].name` should be a string, got undefined',
+    );
+  });
+
+  test('checks webhooks', () => {
+    const webhook = {
+      webhookEvent: 'jira:issue_updated',
+      issue: { key: 'TEST-1', self: 'https://fake-jira/rest/api/2/issue/10001' },
+      changelog: { items: [{ field: 'Reviewers', fieldId: 'customfield_100' }] },
+    };
+    expect(parseWebhook(webhook)).toEqual(webhook);
+    expect(parseWebhook({ webhookEvent: 'jira:issue_created' })).toEqual({
+      webhookEvent: 'jira:issue_created',
+    });
+    expect(() => parseWebhook({ ...webhook, issue: { key: 'TEST-1', self: 1 } })).toThrow(
+      '`issue.self` should be a string, got a number',
+    );
+    expect(() => parseWebhook({ ...webhook, changelog: { items: [{}] } })).toThrow(
+      '`changelog.items[0].field` should be a string, got undefined',
+    );
+    expect(() => parseWebhook('')).toThrow('`webhook` should be an object, got a string');
+  });
+
+  test('checks remote links', () => {
+    const links = [{ self: 'https://x/1', object: { url: 'https://github.com/o/r/pull/1' } }];
+    expect(parseRemoteLinks('remotelink', links)).toEqual(links);
+    expect(() => parseRemoteLinks('remotelink', [{ object: {} }])).toThrow(
+      '`links[0].object.url` should be a string, got undefined',
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import nock from 'nock';
+
+import {
+  jiraFetch,
+  getRetryDelay,
+  describeJiraError,
+  JiraError,
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  ValidationError,
+  UnavailableError,
+} from '../src/jiraClient';
+
+const url = 'https://fake-jira/rest/api/latest/issue/TEST-1';
+// retry immediately, for testing
+const retryOptions = { retries: 2, minDelay: 0, maxDelay: 0 };
+
+describe('Jira client', () => {
+  beforeEach(() => {
+    nock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  test('returns the JSON response, or null for no content', async () => {
+    const jiraMock = nock('https://fake-jira')
+      .get('/rest/api/latest/issue/TEST-1')
+      .reply(200, { key: 'TEST-1' })
+      .put('/rest/api/latest/issue/TEST-1')
+      .reply(204);
+
+    expect(await jiraFetch(url, {}, retryOptions)).toEqual({ key: 'TEST-1' });
+    expect(await jiraFetch(url, { method: 'PUT' }, retryOptions)).toBeNull();
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('retries when Jira is rate limiting or unavailable', async () => {
+    const jiraMock = nock('https://fake-jira')
+      .get('/rest/api/latest/issue/TEST-1')
+      .reply(429, '', { 'Retry-After': '0' })
+      .get('/rest/api/latest/issue/TEST-1')
+      .reply(503)
+      .get('/rest/api/latest/issue/TEST-1')
+      .reply(200, { key: 'TEST-1' });
+
+    expect(await jiraFetch(url, {}, retryOptions)).toEqual({ key: 'TEST-1' });
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('retries a POST only when Jira asks for it with Retry-After', async () => {
+    const postUrl = 'https://fake-jira/rest/api/latest/issue/TEST-1/worklog';
+    const jiraMock = nock('https://fake-jira')
+      .post('/rest/api/latest/issue/TEST-1/worklog')
+      .reply(429, '', { 'Retry-After': '0' })
+      .post('/rest/api/latest/issue/TEST-1/worklog')
+      .reply(201, { id: '1' })
+      .post('/rest/api/latest/issue/TEST-1/worklog')
+      .reply(503)
+      .post('/rest/api/latest/issue/TEST-1/worklog')
+      .replyWithError({ code: 'ECONNRESET', message: 'socket hang up' });
+
+    expect(await jiraFetch(postUrl, { method: 'POST' }, retryOptions)).toEqual({ id: '1' });
+    const err = await jiraFetch(postUrl, { method: 'POST' }, retryOptions).catch((e) => e);
+    expect(err).toBeInstanceOf(UnavailableError);
+    expect(err.status).toBe(503);
+    await expect(jiraFetch(postUrl, { method: 'POST' }, retryOptions)).rejects.toThrow(
+      'socket hang up',
+    );
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('retries network errors', async () => {
+    const jiraMock = nock('https://fake-jira')
+      .get('/rest/api/latest/issue/TEST-1')
+      .replyWithError({ code: 'ECONNRESET', message: 'socket hang up' })
+      .get('/rest/api/latest/issue/TEST-1')
+      .reply(200, { key: 'TEST-1' });
+
+    expect(await jiraFetch(url, {}, retryOptions)).toEqual({ key: 'TEST-1' });
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('throws UnavailableError when the retries run out', async () => {
+    const jiraMock = nock('https://fake-jira')
+      .get('/rest/api/latest/issue/TEST-1')
+      .times(3)
+      .reply(502, '<html>Bad Gateway</html>');
+
+    const err = await jiraFetch(url, {}, retryOptions).catch((e) => e);
+    expect(err).toBeInstanceOf(UnavailableError);
+    expect(err.message).toBe('502: <html>Bad Gateway</html>');
+    expect(describeJiraError(err)).toBe('Jira is unavailable');
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test.each([
+    [400, ValidationError, 'Jira rejected the request: Bad value; priority: not allowed'],
+    [401, UnauthorizedError, "Jira rejected the bot's credentials"],
+    [403, ForbiddenError, "the bot's Jira user does not have permission"],
+    [404, NotFoundError, 'not found in Jira'],
+  ])('throws a typed error for %d, without retrying', async (status, ErrorClass, description) => {
+    const jiraMock = nock('https://fake-jira')
+      .get('/rest/api/latest/issue/TEST-1')
+      .reply(status, { errorMessages: ['Bad value'], errors: { priority: 'not allowed' } });
+
+    const err = await jiraFetch(url, {}, retryOptions).catch((e) => e);
+    expect(err).toBeInstanceOf(ErrorClass);
+    expect(err).toBeInstanceOf(JiraError);
+    expect(err.status).toBe(status);
+    expect(err.errorMessages).toEqual(['Bad value']);
+    expect(err.message).toBe(`${status}: Bad value; not allowed`);
+    expect(describeJiraError(err)).toBe(description);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('backs off exponentially, honouring Retry-After up to the maximum delay', () => {
+    const options = { retries: 3, minDelay: 1000, maxDelay: 10000 };
+    expect(getRetryDelay(1, null, options)).toBe(1000);
+    expect(getRetryDelay(3, null, options)).toBe(4000);
+    expect(getRetryDelay(5, null, options)).toBe(10000);
+    expect(getRetryDelay(1, '5', options)).toBe(5000);
+    expect(getRetryDelay(1, '120', options)).toBe(10000);
+    expect(getRetryDelay(1, new Date(Date.now() - 1000).toUTCString(), options)).toBe(0);
+    expect(getRetryDelay(1, 'soon', options)).toBe(1000);
+  });
+});
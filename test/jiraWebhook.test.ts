@@ -0,0 +1,259 @@
+import nock from 'nock';
+import { Probot, ProbotOctokit } from 'probot';
+import fs from 'fs-extra';
+import path from 'path';
+
+import { handleJiraWebhook } from '../src/jiraWebhook';
+import { clearCaches } from '../src/cache';
+import issueUpdatedPayload from './fixtures/jira.issue_updated.json';
+
+const privateKey = fs.readFileSync(path.join(__dirname, 'fixtures/mock-cert.pem'), 'utf-8');
+const jiraConfig = fs.readFileSync(path.join(__dirname, 'fixtures/jira.yml'), 'utf8');
+
+const accessToken = {
+  token: 'test',
+  permissions: {
+    issues: 'write',
+  },
+};
+
+const pullRequest = {
+  number: 4,
+  user: { login: 'testuser' },
+  assignees: [{ login: 'olduser' }],
+  requested_reviewers: [],
+  head: { sha: 'abc123' },
+  base: { repo: { name: 'test-repo', owner: { login: 'testuser' } } },
+};
+
+const linkedPrMocks = (config = '') =>
+  nock('https://api.github.com')
+    // Find the installation for the repo
+    .get('/repos/testuser/test-repo/installation')
+    .reply(200, { id: 2 })
+    .post('/app/installations/2/access_tokens')
+    .reply(200, accessToken)
+    .get('/repos/testuser/test-repo/pulls/4')
+    .reply(200, pullRequest)
+    // Handle config read
+    .get('/repos/testuser/test-repo/contents/.github%2Fjira.yml')
+    .reply(
+      200,
+      `${jiraConfig}  userMap:\n    testuser2: jirauser\n    olduser: olduser\n  webhook:\n    commentOnStatus:\n      - Won't Do\n${config}`,
+    )
+    // Handle metadata read
+    .get('/repos/testuser/test-repo/issues/4')
+    .reply(200, { body: '\n\n<!-- probot = {"2":{"jira-issue":["TEST-1"]}} -->' });
+
+const remoteLinkMock = (fields: object) =>
+  nock('https://fake-jira')
+    .get('/rest/api/2/issue/10001/remotelink')
+    .reply(200, [
+      { id: 1, object: { url: 'https://example.com/docs', title: 'Docs' } },
+      {
+        id: 100,
+        object: {
+          url: 'https://github.com/testuser/test-repo/pull/4',
+          title: 'GitHub PR #4 - Create foo',
+        },
+      },
+    ])
+    // read the changed issue again, rather than trusting the payload
+    .get('/rest/api/latest/issue/TEST-1')
+    .reply(200, { key: 'TEST-1', fields });
+
+describe('Jira webhook', () => {
+  let probot: Probot;
+
+  const env = process.env;
+
+  beforeEach(() => {
+    nock.disableNetConnect();
+    process.env = { ...env, JIRA_WEBHOOK_HOSTS: 'fake-jira' };
+    clearCaches();
+    probot = new Probot({
+      appId: 123,
+      privateKey,
+      // disable request throttling and retries for testing
+      Octokit: ProbotOctokit.defaults({
+        retry: { enabled: false },
+        throttle: { enabled: false },
+      }),
+    });
+  });
+
+  test('syncs the Jira assignee to the linked PR', async () => {
+    const jiraMock = remoteLinkMock({ assignee: { name: 'jirauser' } });
+    const mock = linkedPrMocks()
+      .delete('/repos/testuser/test-repo/issues/4/assignees', (body: any) => {
+        expect(body).toEqual({ assignees: ['olduser'] });
+        return true;
+      })
+      .reply(200)
+      .post('/repos/testuser/test-repo/issues/4/assignees', (body: any) => {
+        expect(body).toEqual({ assignees: ['testuser2'] });
+        return true;
+      })
+      .reply(201);
+
+    await handleJiraWebhook(probot, issueUpdatedPayload);
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('syncs the Jira reviewers to the linked PR, by field name from Jira Server', async () => {
+    const jiraMock = remoteLinkMock({ customfield_100: [{ name: 'jirauser' }] })
+      // Jira Server names the changed field, so look up the name of the reviewers field
+      .get('/rest/api/latest/field')
+      .reply(200, [
+        { id: 'summary', name: 'Summary', custom: false },
+        { id: 'customfield_100', name: 'Reviewers', custom: true },
+      ]);
+    const mock = linkedPrMocks('  fields:\n    reviewers: customfield_100\n')
+      .post('/repos/testuser/test-repo/pulls/4/requested_reviewers', (body: any) => {
+        expect(body).toEqual({ reviewers: ['testuser2'] });
+        return true;
+      })
+      .reply(201);
+
+    await handleJiraWebhook(probot, {
+      ...issueUpdatedPayload,
+      changelog: {
+        items: [
+          {
+            field: 'Reviewers',
+            fieldtype: 'custom',
+            from: null,
+            to: 'jirauser',
+            toString: 'Jira User',
+          },
+        ],
+      },
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('syncs the Jira reviewers to the linked PR, by the field id that Jira Cloud sends', async () => {
+    const jiraMock = remoteLinkMock({ customfield_100: [{ name: 'jirauser' }] });
+    const mock = linkedPrMocks('  fields:\n    reviewers: customfield_100\n')
+      .post('/repos/testuser/test-repo/pulls/4/requested_reviewers', (body: any) => {
+        expect(body).toEqual({ reviewers: ['testuser2'] });
+        return true;
+      })
+      .reply(201);
+
+    await handleJiraWebhook(probot, {
+      ...issueUpdatedPayload,
+      changelog: { items: [{ field: 'Reviewers', fieldId: 'customfield_100' }] },
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('syncs the other linked PRs when one of them fails', async () => {
+    const jiraMock = nock('https://fake-jira')
+      .get('/rest/api/2/issue/10001/remotelink')
+      .reply(200, [
+        {
+          id: 99,
+          object: {
+            url: 'https://github.com/testuser/gone-repo/pull/3',
+            title: 'GitHub PR #3 - Create bar',
+          },
+        },
+        {
+          id: 100,
+          object: {
+            url: 'https://github.com/testuser/test-repo/pull/4',
+            title: 'GitHub PR #4 - Create foo',
+          },
+        },
+      ])
+      .get('/rest/api/latest/issue/TEST-1')
+      .reply(200, { key: 'TEST-1', fields: { assignee: { name: 'jirauser' } } });
+    const mock = linkedPrMocks()
+      // the app is no longer installed on the first repo
+      .get('/repos/testuser/gone-repo/installation')
+      .reply(404, { message: 'Not Found' })
+      .delete('/repos/testuser/test-repo/issues/4/assignees')
+      .reply(200)
+      .post('/repos/testuser/test-repo/issues/4/assignees')
+      .reply(201);
+
+    await handleJiraWebhook(probot, issueUpdatedPayload);
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test("comments on the linked PR when the issue is moved to Won't Do", async () => {
+    const jiraMock = remoteLinkMock({ status: { name: "Won't Do" } });
+    const mock = linkedPrMocks()
+      .post('/repos/testuser/test-repo/issues/4/comments', (body: any) => {
+        expect(body).toMatchSnapshot();
+        return true;
+      })
+      .reply(201);
+
+    await handleJiraWebhook(probot, {
+      ...issueUpdatedPayload,
+      changelog: {
+        items: [
+          { field: 'status', from: '3', fromString: 'In Progress', to: '10', toString: "Won't Do" },
+        ],
+      },
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('reports the Jira check again when the issue moves to a disallowed status', async () => {
+    const jiraMock = remoteLinkMock({ status: { name: 'Done' } });
+    const mock = linkedPrMocks('  checks:\n    enabled: true\n    disallowedStatuses: [Done]\n')
+      .post('/repos/testuser/test-repo/check-runs', (body: any) => {
+        expect(body).toMatchObject({
+          head_sha: 'abc123',
+          conclusion: 'failure',
+          output: { title: 'TEST-1 is not valid for this PR' },
+        });
+        return true;
+      })
+      .reply(201);
+
+    await handleJiraWebhook(probot, {
+      ...issueUpdatedPayload,
+      changelog: { items: [{ field: 'status', fromString: 'In Progress', toString: 'Done' }] },
+    });
+
+    expect(mock.pendingMocks()).toStrictEqual([]);
+    expect(jiraMock.pendingMocks()).toStrictEqual([]);
+  });
+
+  test('ignores webhooks from unknown Jira hosts, without sending them credentials', async () => {
+    process.env.JIRA_USER = 'bot';
+    process.env.JIRA_PASS = 's3cret';
+    const attacker = nock('https://attacker.example').get(/.*/).reply(200, []);
+
+    await handleJiraWebhook(probot, {
+      ...issueUpdatedPayload,
+      issue: { ...issueUpdatedPayload.issue, self: 'https://attacker.example/rest/api/2/issue/1' },
+    });
+
+    expect(attacker.isDone()).toBe(false);
+  });
+
+  test('ignores other Jira events', async () => {
+    await handleJiraWebhook(probot, { ...issueUpdatedPayload, webhookEvent: 'jira:issue_created' });
+  });
+
+  afterEach(() => {
+    process.env = env;
+    nock.cleanAll();
+    nock.enableNetConnect();
+  });
+});